@@ -2,6 +2,8 @@
 // for information about these interfaces
 
 import type { FEN } from '$lib/types/chess';
+import type { SessionUser } from '$lib/server/auth';
+import type { Session } from '$lib/server/db/schema';
 
 declare global {
 	namespace App {
@@ -9,7 +11,10 @@ declare global {
 			message: string;
 			code?: string;
 		}
-		// interface Locals {}
+		interface Locals {
+			user: SessionUser | null;
+			session: Session | null;
+		}
 		interface PageData {
 			fen?: FEN;
 		}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { formatElapsed, formatNodes, targetDepth, toSearchLimits } from './analysisLimits';
+
+describe('analysis limits', () => {
+	it('turns each mode into go limits', () => {
+		expect(toSearchLimits('depth', 14)).toEqual({ depth: 14 });
+		expect(toSearchLimits('movetime', 5)).toEqual({ movetime: 5000 });
+		expect(toSearchLimits('nodes', 1_000_000)).toEqual({ nodes: 1_000_000 });
+		expect(toSearchLimits('infinite', 0)).toEqual({ infinite: true });
+	});
+
+	it('has a target depth only for depth-limited searches', () => {
+		expect(targetDepth({ depth: 14 })).toBe(14);
+		expect(targetDepth({ movetime: 5000 })).toBeNull();
+		expect(targetDepth({ nodes: 1_000_000 })).toBeNull();
+		expect(targetDepth({ infinite: true })).toBeNull();
+	});
+
+	it('formats node counts and elapsed time', () => {
+		expect(formatNodes(950)).toBe('950');
+		expect(formatNodes(854_321)).toBe('854k');
+		expect(formatNodes(1_234_567)).toBe('1.2M');
+		expect(formatElapsed(12_345)).toBe('12.3s');
+		expect(formatElapsed(65_000)).toBe('1:05');
+	});
+});
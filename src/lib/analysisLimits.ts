@@ -0,0 +1,75 @@
+/**
+ * Analysis limits
+ * The search limits offered on the analysis board and the search statistics
+ * shown while the engine runs
+ */
+
+import type { SearchLimits } from '$lib/engineClient';
+
+export type LimitMode = 'depth' | 'movetime' | 'nodes' | 'infinite';
+
+export interface LimitRange {
+	label: string;
+	min: number;
+	max: number;
+	step: number;
+	default: number;
+}
+
+/** Slider range per limit; movetime is in seconds */
+export const LIMIT_RANGES: Record<Exclude<LimitMode, 'infinite'>, LimitRange> = {
+	depth: { label: 'Depth', min: 10, max: 20, step: 1, default: 12 },
+	movetime: { label: 'Time (s)', min: 1, max: 60, step: 1, default: 5 },
+	nodes: { label: 'Nodes', min: 100_000, max: 10_000_000, step: 100_000, default: 1_000_000 }
+};
+
+/** Progress of the running (or last) search */
+export interface SearchStatus {
+	running: boolean;
+	nps?: number; // Nodes per second, as reported by the engine
+	elapsed?: number; // Milliseconds, as reported by the engine
+}
+
+/**
+ * `go` limits for a mode and its slider value
+ */
+export function toSearchLimits(mode: LimitMode, value: number): SearchLimits {
+	switch (mode) {
+		case 'depth':
+			return { depth: value };
+		case 'movetime':
+			return { movetime: value * 1000 };
+		case 'nodes':
+			return { nodes: value };
+		case 'infinite':
+			return { infinite: true };
+	}
+}
+
+/**
+ * The depth a search with these limits is meant to reach, or null when it is bounded
+ * by time or nodes or runs until stopped
+ */
+export function targetDepth(limits: SearchLimits): number | null {
+	if (limits.infinite || limits.movetime !== undefined || limits.nodes !== undefined) return null;
+	return limits.depth ?? null;
+}
+
+/**
+ * Node counts and speeds in k/M, e.g. "850k" or "1.2M"
+ */
+export function formatNodes(nodes: number): string {
+	if (nodes >= 1_000_000) return `${(nodes / 1_000_000).toFixed(1)}M`;
+	if (nodes >= 1_000) return `${Math.round(nodes / 1_000)}k`;
+	return String(nodes);
+}
+
+/**
+ * Search time as seconds under a minute, minutes and seconds above
+ */
+export function formatElapsed(ms: number): string {
+	const seconds = ms / 1000;
+	if (seconds < 60) return `${seconds.toFixed(1)}s`;
+	const whole = Math.floor(seconds);
+	return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+}
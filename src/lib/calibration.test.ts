@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import {
+	SCATTER_LIMIT,
+	computeCalibration,
+	toScatterValue,
+	type CalibrationGuess
+} from './calibration';
+import { materialBalance } from './fen';
+
+const START = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+const WHITE_UP_A_ROOK = '4k3/8/8/8/8/8/8/R3K3 w - - 0 1';
+
+function guess(overrides: Partial<CalibrationGuess>): CalibrationGuess {
+	return {
+		positionId: 1,
+		fen: START,
+		phase: 'opening',
+		mode: 'classic',
+		guess: { type: 'cp', value: 0 },
+		engine: { type: 'cp', value: 0 },
+		error: 0,
+		points: 100,
+		isCorrect: true,
+		createdAt: new Date('2026-01-01T12:00:00Z'),
+		...overrides
+	};
+}
+
+describe('materialBalance', () => {
+	it('is zero in the starting position', () => {
+		expect(materialBalance(START)).toBe(0);
+	});
+
+	it('counts from white', () => {
+		expect(materialBalance(WHITE_UP_A_ROOK)).toBe(5);
+		expect(materialBalance('r3k3/8/8/8/8/8/8/4K3 w - - 0 1')).toBe(-5);
+	});
+});
+
+describe('computeCalibration', () => {
+	it('returns empty statistics without guesses', () => {
+		const stats = computeCalibration([]);
+		expect(stats).toMatchObject({
+			count: 0,
+			accuracy: 0,
+			meanError: 0,
+			meanSignedError: 0,
+			trend: []
+		});
+		expect(stats.byPhase.every((bucket) => bucket.count === 0)).toBe(true);
+	});
+
+	it('reports a positive signed error when white is overrated', () => {
+		const stats = computeCalibration([
+			guess({ guess: { type: 'cp', value: 200 }, engine: { type: 'cp', value: 0 } }),
+			guess({ guess: { type: 'cp', value: 100 }, engine: { type: 'cp', value: -100 } })
+		]);
+		expect(stats.meanSignedError).toBeGreaterThan(0);
+	});
+
+	it('cancels out symmetric errors', () => {
+		const stats = computeCalibration([
+			guess({ guess: { type: 'cp', value: 150 } }),
+			guess({ guess: { type: 'cp', value: -150 } })
+		]);
+		expect(stats.meanSignedError).toBeCloseTo(0, 10);
+	});
+
+	it('splits accuracy by phase and material', () => {
+		const stats = computeCalibration([
+			guess({ phase: 'opening', isCorrect: true }),
+			guess({ phase: 'opening', isCorrect: false }),
+			guess({ phase: 'endgame', fen: WHITE_UP_A_ROOK, isCorrect: true })
+		]);
+
+		expect(stats.byPhase.find((b) => b.label === 'opening')).toMatchObject({
+			count: 2,
+			accuracy: 0.5
+		});
+		expect(stats.byPhase.find((b) => b.label === 'endgame')).toMatchObject({
+			count: 1,
+			accuracy: 1
+		});
+		expect(stats.byMaterial.find((b) => b.label === 'Equal material')?.count).toBe(2);
+		expect(stats.byMaterial.find((b) => b.label === 'White +3 or more')?.count).toBe(1);
+	});
+
+	it('groups the trend by day, oldest first', () => {
+		const stats = computeCalibration([
+			guess({ createdAt: new Date('2026-01-02T09:00:00Z'), isCorrect: false }),
+			guess({ createdAt: new Date('2026-01-01T09:00:00Z') }),
+			guess({ createdAt: new Date('2026-01-02T10:00:00Z') })
+		]);
+		expect(stats.trend).toEqual([
+			expect.objectContaining({ date: '2026-01-01', count: 1, accuracy: 1 }),
+			expect.objectContaining({ date: '2026-01-02', count: 2, accuracy: 0.5 })
+		]);
+	});
+});
+
+describe('toScatterValue', () => {
+	it('puts mates and large evaluations on the edge', () => {
+		expect(toScatterValue({ type: 'mate', value: 3 })).toBe(SCATTER_LIMIT);
+		expect(toScatterValue({ type: 'mate', value: -2 })).toBe(-SCATTER_LIMIT);
+		expect(toScatterValue({ type: 'cp', value: 5000 })).toBe(SCATTER_LIMIT);
+		expect(toScatterValue({ type: 'cp', value: -250 })).toBe(-2.5);
+	});
+});
@@ -0,0 +1,166 @@
+/**
+ * Calibration statistics for a player's stored guesses
+ * How far guesses land from the engine, and in which direction
+ */
+
+import {
+	DEFAULT_SCORING_MODEL,
+	evaluationToWinChance,
+	toEvaluationScore,
+	type ScoringModel
+} from '$lib/scoring';
+import { materialBalance, type GamePhase } from '$lib/fen';
+import type { MoveScore } from '$lib/uciParser';
+import type { FEN } from '$lib/types/chess';
+
+/** A stored guess with the position it was made on */
+export interface CalibrationGuess {
+	positionId: number;
+	fen: FEN;
+	phase: GamePhase;
+	mode: string;
+	guess: MoveScore; // White's perspective
+	engine: MoveScore; // White's perspective
+	error: number; // Win-probability error
+	points: number;
+	isCorrect: boolean;
+	createdAt: Date;
+}
+
+export interface BucketStats {
+	label: string;
+	count: number;
+	correct: number;
+	accuracy: number; // 0-1
+	meanError: number; // Mean win-probability error
+}
+
+export interface ScatterPoint {
+	guess: number; // Pawns, clamped to the scatter range
+	engine: number;
+	isCorrect: boolean;
+}
+
+export interface TrendPoint {
+	date: string; // YYYY-MM-DD
+	count: number;
+	accuracy: number;
+	meanError: number;
+}
+
+export interface CalibrationStats {
+	count: number;
+	accuracy: number;
+	meanError: number;
+	// Mean of (guess - engine) in White's win probability: positive means White is overrated
+	meanSignedError: number;
+	byPhase: BucketStats[];
+	byMaterial: BucketStats[];
+	scatter: ScatterPoint[];
+	trend: TrendPoint[];
+}
+
+// Evaluations beyond this many pawns (and mates) sit on the edge of the scatter plot
+export const SCATTER_LIMIT = 10;
+
+const PHASES: GamePhase[] = ['opening', 'middlegame', 'endgame'];
+
+// Material balance buckets, in pawns from White's side
+const MATERIAL_BUCKETS: { label: string; min: number; max: number }[] = [
+	{ label: 'Black +3 or more', min: -Infinity, max: -3 },
+	{ label: 'Black +1 to +2', min: -2, max: -1 },
+	{ label: 'Equal material', min: 0, max: 0 },
+	{ label: 'White +1 to +2', min: 1, max: 2 },
+	{ label: 'White +3 or more', min: 3, max: Infinity }
+];
+
+/**
+ * Compute calibration statistics for a list of guesses
+ */
+export function computeCalibration(
+	guesses: CalibrationGuess[],
+	model: ScoringModel = DEFAULT_SCORING_MODEL
+): CalibrationStats {
+	const signedErrors = guesses.map(
+		(g) =>
+			evaluationToWinChance(toEvaluationScore(g.guess), model) -
+			evaluationToWinChance(toEvaluationScore(g.engine), model)
+	);
+
+	const byMaterial = MATERIAL_BUCKETS.map(({ label, min, max }) =>
+		bucket(
+			label,
+			guesses.filter((g) => {
+				const balance = materialBalance(g.fen);
+				return balance >= min && balance <= max;
+			})
+		)
+	);
+
+	return {
+		count: guesses.length,
+		accuracy: mean(guesses.map((g) => (g.isCorrect ? 1 : 0))),
+		meanError: mean(guesses.map((g) => g.error)),
+		meanSignedError: mean(signedErrors),
+		byPhase: PHASES.map((phase) =>
+			bucket(
+				phase,
+				guesses.filter((g) => g.phase === phase)
+			)
+		),
+		byMaterial,
+		scatter: guesses.map((g) => ({
+			guess: toScatterValue(g.guess),
+			engine: toScatterValue(g.engine),
+			isCorrect: g.isCorrect
+		})),
+		trend: dailyTrend(guesses)
+	};
+}
+
+/**
+ * Pawn value for the scatter plot, with mates and large evaluations on the edge
+ */
+export function toScatterValue(score: MoveScore): number {
+	if (score.type === 'mate') {
+		return score.value < 0 ? -SCATTER_LIMIT : SCATTER_LIMIT;
+	}
+	return Math.max(-SCATTER_LIMIT, Math.min(SCATTER_LIMIT, score.value / 100));
+}
+
+function bucket(label: string, guesses: CalibrationGuess[]): BucketStats {
+	const correct = guesses.filter((g) => g.isCorrect).length;
+	return {
+		label,
+		count: guesses.length,
+		correct,
+		accuracy: guesses.length > 0 ? correct / guesses.length : 0,
+		meanError: mean(guesses.map((g) => g.error))
+	};
+}
+
+// Accuracy and error per calendar day (UTC), oldest first
+function dailyTrend(guesses: CalibrationGuess[]): TrendPoint[] {
+	const days = new Map<string, CalibrationGuess[]>();
+	for (const guess of guesses) {
+		const date = guess.createdAt.toISOString().slice(0, 10);
+		const day = days.get(date);
+		if (day) {
+			day.push(guess);
+		} else {
+			days.set(date, [guess]);
+		}
+	}
+
+	return Array.from(days.entries())
+		.sort(([a], [b]) => a.localeCompare(b))
+		.map(([date, dayGuesses]) => {
+			const stats = bucket(date, dayGuesses);
+			return { date, count: stats.count, accuracy: stats.accuracy, meanError: stats.meanError };
+		});
+}
+
+function mean(values: number[]): number {
+	if (values.length === 0) return 0;
+	return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import {
+	computerMoveTime,
+	createClock,
+	formatClock,
+	formatTimeControl,
+	pressClock,
+	remainingTime,
+	settleClock,
+	startClock,
+	stopClock
+} from './chessClock';
+
+const BLITZ = { initial: 180_000, increment: 2_000 };
+
+describe('chess clock', () => {
+	it('runs only the side to move', () => {
+		const clock = startClock(createClock(BLITZ), 'w', 0);
+
+		expect(remainingTime(clock, 'w', 5_000)).toBe(175_000);
+		expect(remainingTime(clock, 'b', 5_000)).toBe(180_000);
+	});
+
+	it('charges the mover, adds the increment and starts the opponent', () => {
+		const afterWhite = pressClock(startClock(createClock(BLITZ), 'w', 0), 5_000);
+
+		expect(afterWhite.white).toBe(177_000);
+		expect(afterWhite.running).toBe('b');
+		expect(remainingTime(afterWhite, 'b', 8_000)).toBe(177_000);
+	});
+
+	it('flags a side that moves after its time ran out', () => {
+		const clock = startClock(createClock({ initial: 1_000, increment: 5_000 }), 'w', 0);
+		const late = pressClock(clock, 1_500);
+
+		expect(late.flagged).toBe('w');
+		expect(late.white).toBe(0);
+		expect(late.running).toBeNull();
+		expect(startClock(late, 'b', 2_000)).toBe(late);
+	});
+
+	it('freezes both sides when stopped', () => {
+		const stopped = stopClock(startClock(createClock(BLITZ), 'b', 0), 4_000);
+
+		expect(stopped.black).toBe(176_000);
+		expect(remainingTime(stopped, 'b', 60_000)).toBe(176_000);
+	});
+
+	it('settles a stored clock, flagging a side whose time ran out meanwhile', () => {
+		const running = startClock(createClock(BLITZ), 'w', 0);
+
+		expect(settleClock(running, 60_000)).toMatchObject({
+			white: 120_000,
+			running: null,
+			flagged: null
+		});
+		expect(settleClock(running, 200_000)).toMatchObject({ white: 0, flagged: 'w' });
+		expect(settleClock(createClock(BLITZ), 200_000)).toEqual(createClock(BLITZ));
+	});
+
+	it('budgets computer time from its clock', () => {
+		expect(computerMoveTime(300_000, 0)).toBe(10_000);
+		expect(computerMoveTime(60_000, 2_000)).toBe(3_600);
+		// Nearly flagged: stay inside what is left
+		expect(computerMoveTime(400, 5_000)).toBe(100);
+		expect(computerMoveTime(100, 0)).toBe(50);
+	});
+
+	it('formats clocks and time controls', () => {
+		expect(formatClock(180_000)).toBe('3:00');
+		expect(formatClock(61_200)).toBe('1:02');
+		expect(formatClock(9_340)).toBe('0:09.3');
+		expect(formatClock(0)).toBe('0:00.0');
+		expect(formatTimeControl(BLITZ)).toBe('3+2');
+	});
+});
@@ -0,0 +1,171 @@
+/**
+ * Chess clock
+ * Time controls and a two-sided clock kept as plain data, so it can travel in
+ * GameState. The running side's time is derived from when its turn started.
+ */
+
+export type ClockColor = 'w' | 'b';
+
+/** Base time and per-move increment, in milliseconds */
+export interface TimeControl {
+	initial: number;
+	increment: number;
+}
+
+export type TimeControlCategory = 'bullet' | 'blitz' | 'rapid';
+
+export interface TimeControlPreset {
+	category: TimeControlCategory;
+	control: TimeControl;
+}
+
+const MINUTE = 60 * 1000;
+const SECOND = 1000;
+
+export const TIME_CONTROL_PRESETS: TimeControlPreset[] = [
+	{ category: 'bullet', control: { initial: 1 * MINUTE, increment: 0 } },
+	{ category: 'bullet', control: { initial: 2 * MINUTE, increment: 1 * SECOND } },
+	{ category: 'blitz', control: { initial: 3 * MINUTE, increment: 0 } },
+	{ category: 'blitz', control: { initial: 3 * MINUTE, increment: 2 * SECOND } },
+	{ category: 'blitz', control: { initial: 5 * MINUTE, increment: 0 } },
+	{ category: 'blitz', control: { initial: 5 * MINUTE, increment: 3 * SECOND } },
+	{ category: 'rapid', control: { initial: 10 * MINUTE, increment: 0 } },
+	{ category: 'rapid', control: { initial: 10 * MINUTE, increment: 5 * SECOND } },
+	{ category: 'rapid', control: { initial: 15 * MINUTE, increment: 10 * SECOND } }
+];
+
+/** Play the tick sound once a clock gets this low */
+export const TICK_WARNING_MS = 10 * SECOND;
+
+// Moves the computer budgets its remaining time over, and the share of the increment it spends
+const EXPECTED_MOVES_LEFT = 30;
+const INCREMENT_SHARE = 0.8;
+// Never plan to use the last of the clock; browser timers and worker messages are not instant
+const SAFETY_MARGIN_MS = 300;
+const MIN_MOVE_TIME_MS = 50;
+
+export interface ClockState {
+	control: TimeControl;
+	white: number; // Remaining milliseconds, as of when the running side's turn started
+	black: number;
+	running: ClockColor | null;
+	turnStartedAt: number | null; // Epoch milliseconds
+	flagged: ClockColor | null; // Side that ran out of time
+}
+
+/**
+ * A stopped clock with both sides on the initial time
+ */
+export function createClock(control: TimeControl): ClockState {
+	return {
+		control,
+		white: control.initial,
+		black: control.initial,
+		running: null,
+		turnStartedAt: null,
+		flagged: null
+	};
+}
+
+/**
+ * Time left for a side right now, never below zero
+ */
+export function remainingTime(
+	clock: ClockState,
+	color: ClockColor,
+	now: number = Date.now()
+): number {
+	const stored = color === 'w' ? clock.white : clock.black;
+	if (clock.running !== color || clock.turnStartedAt === null) return stored;
+	return Math.max(0, stored - (now - clock.turnStartedAt));
+}
+
+/**
+ * Freeze both clocks, charging the running side for its turn so far
+ */
+export function stopClock(clock: ClockState, now: number = Date.now()): ClockState {
+	if (!clock.running) return clock;
+	return {
+		...clock,
+		white: remainingTime(clock, 'w', now),
+		black: remainingTime(clock, 'b', now),
+		running: null,
+		turnStartedAt: null
+	};
+}
+
+/**
+ * Start a side's clock, stopping the other one without an increment
+ */
+export function startClock(
+	clock: ClockState,
+	color: ClockColor,
+	now: number = Date.now()
+): ClockState {
+	if (clock.flagged) return clock;
+	return { ...stopClock(clock, now), running: color, turnStartedAt: now };
+}
+
+/**
+ * The running side completed a move: charge it, add its increment and start the opponent
+ * A side that is already out of time flags instead.
+ */
+export function pressClock(clock: ClockState, now: number = Date.now()): ClockState {
+	const mover = clock.running;
+	if (!mover || clock.flagged) return clock;
+
+	if (remainingTime(clock, mover, now) <= 0) return flag(clock, mover, now);
+
+	const stopped = stopClock(clock, now);
+	const key = mover === 'w' ? 'white' : 'black';
+	return startClock(
+		{ ...stopped, [key]: stopped[key] + clock.control.increment },
+		mover === 'w' ? 'b' : 'w',
+		now
+	);
+}
+
+/**
+ * Mark a side as out of time and stop the clock
+ */
+export function flag(clock: ClockState, color: ClockColor, now: number = Date.now()): ClockState {
+	const stopped = stopClock(clock, now);
+	return { ...stopped, [color === 'w' ? 'white' : 'black']: 0, flagged: color };
+}
+
+/**
+ * Stop a clock read back from storage, charging the running side for the time since its
+ * turn started, including time away; it flags when that used up its time
+ */
+export function settleClock(clock: ClockState, now: number = Date.now()): ClockState {
+	const running = clock.running;
+	if (!running || clock.flagged) return clock;
+	return remainingTime(clock, running, now) > 0 ? stopClock(clock, now) : flag(clock, running, now);
+}
+
+/**
+ * Search time for the computer from its clock: a share of what is left plus most of the increment
+ */
+export function computerMoveTime(remaining: number, increment: number): number {
+	const budget = remaining / EXPECTED_MOVES_LEFT + increment * INCREMENT_SHARE;
+	const ceiling = Math.max(MIN_MOVE_TIME_MS, remaining - SAFETY_MARGIN_MS);
+	return Math.round(Math.max(MIN_MOVE_TIME_MS, Math.min(budget, ceiling)));
+}
+
+/**
+ * Clock display: m:ss, with tenths under ten seconds
+ */
+export function formatClock(ms: number): string {
+	if (ms < TICK_WARNING_MS) {
+		return `0:${(Math.floor(ms / 100) / 10).toFixed(1).padStart(4, '0')}`;
+	}
+	const seconds = Math.ceil(ms / 1000);
+	return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Time control as minutes+seconds, e.g. "5+3"
+ */
+export function formatTimeControl(control: TimeControl): string {
+	return `${control.initial / MINUTE}+${control.increment / SECOND}`;
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { CompareManager, gapBonus, pickCandidates } from './compareManager';
+import type { AnalysisSnapshot, MoveAnalysisData } from './uciParser';
+
+const whiteToMove = 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR w KQkq - 0 1';
+const blackToMove = 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1';
+
+function snapshot(lines: Partial<MoveAnalysisData>[], depth = 14): AnalysisSnapshot {
+	const moves = new Map<string, MoveAnalysisData>();
+	for (const line of lines) {
+		const move = line.move!;
+		moves.set(move, { depth, pv: [move], score: { type: 'cp', value: 0 }, ...line, move });
+	}
+	return { depth, moves, timestamp: 0, isComplete: true };
+}
+
+describe('pickCandidates', () => {
+	it('pairs the best move with the alternative closest to the target gap', () => {
+		const comparison = pickCandidates(
+			whiteToMove,
+			snapshot([
+				{ move: 'd2d4', multipv: 1, score: { type: 'cp', value: 40 } },
+				{ move: 'g1f3', multipv: 2, score: { type: 'cp', value: 35 } },
+				{ move: 'b1c3', multipv: 3, score: { type: 'cp', value: -80 } },
+				{ move: 'a2a4', multipv: 4, score: { type: 'cp', value: -400 } }
+			]),
+			() => 0
+		);
+
+		expect(comparison).not.toBeNull();
+		expect(comparison!.betterIndex).toBe(0);
+		expect(comparison!.candidates.map((c) => c.move)).toEqual(['d2d4', 'b1c3']);
+		expect(comparison!.candidates[0].san).toBe('d4');
+		expect(comparison!.gap).toBeCloseTo(1.2);
+	});
+
+	it('returns null when every alternative is about as good as the best move', () => {
+		const comparison = pickCandidates(
+			whiteToMove,
+			snapshot([
+				{ move: 'd2d4', multipv: 1, score: { type: 'cp', value: 40 } },
+				{ move: 'g1f3', multipv: 2, score: { type: 'cp', value: 35 } }
+			])
+		);
+
+		expect(comparison).toBeNull();
+	});
+
+	it('ignores lines left over from shallower depths', () => {
+		const lines = snapshot([{ move: 'd2d4', multipv: 1, score: { type: 'cp', value: 40 } }]);
+		lines.moves.set('a2a4', {
+			move: 'a2a4',
+			multipv: 2,
+			depth: 13,
+			pv: ['a2a4'],
+			score: { type: 'cp', value: -200 }
+		});
+
+		expect(pickCandidates(whiteToMove, lines)).toBeNull();
+	});
+
+	it('reports evaluations from white and compares from the side to move', () => {
+		const comparison = pickCandidates(
+			blackToMove,
+			snapshot([
+				{ move: 'e7e5', multipv: 1, score: { type: 'cp', value: -30 } },
+				{ move: 'f7f6', multipv: 2, score: { type: 'cp', value: -150 } }
+			]),
+			() => 0.9
+		);
+
+		expect(comparison!.betterIndex).toBe(1);
+		expect(comparison!.candidates[1].move).toBe('e7e5');
+		expect(comparison!.candidates[1].evaluation.displayScore).toBe('+0.30');
+		expect(comparison!.candidates[0].evaluation.displayScore).toBe('+1.50');
+		expect(comparison!.gap).toBeCloseTo(1.2);
+	});
+});
+
+describe('CompareManager.submitPick', () => {
+	const comparison = pickCandidates(
+		whiteToMove,
+		snapshot([
+			{ move: 'd2d4', multipv: 1, score: { type: 'cp', value: 40 } },
+			{ move: 'b1c3', multipv: 2, score: { type: 'cp', value: -80 } }
+		]),
+		() => 0
+	)!;
+
+	it('scores the pick and the gap bonus and tracks the streak', () => {
+		const manager = new CompareManager();
+
+		const right = manager.submitPick(comparison, 0, 1.2);
+		expect(right.isCorrect).toBe(true);
+		expect(right.gapBonus).toBe(gapBonus(1.2, comparison.gap));
+		expect(right.points).toBe(100 + right.gapBonus);
+
+		const wrong = manager.submitPick(comparison, 1, 1.2);
+		expect(wrong.isCorrect).toBe(false);
+		expect(wrong.points).toBe(0);
+
+		expect(manager.getState()).toEqual({
+			streak: 0,
+			bestStreak: 1,
+			attempts: 2,
+			correct: 1,
+			points: right.points
+		});
+	});
+});
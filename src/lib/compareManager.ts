@@ -0,0 +1,236 @@
+/**
+ * Compare Manager for the "which move is better?" mode
+ * Analyzes a position with MultiPV, offers two candidate moves and scores the pick
+ */
+
+import { UCIParser, type AnalysisSnapshot, type MoveAnalysisData } from '$lib/uciParser';
+import { EngineClient } from '$lib/engineClient';
+import { uciToSan } from '$lib/moveConversion';
+import { evaluationToWinChance, toEvaluationScore } from '$lib/scoring';
+import type { EvaluationScore, FEN } from '$lib/types/chess';
+
+/** One of the two moves offered to the player */
+export interface CandidateMove {
+	move: string; // UCI
+	san: string;
+	multipv: number;
+	evaluation: EvaluationScore; // White's perspective
+	winChance: number; // Side to move's expected score (0-1)
+}
+
+export interface Comparison {
+	fen: FEN;
+	candidates: [CandidateMove, CandidateMove]; // Shown as A and B
+	betterIndex: 0 | 1;
+	gap: number; // Eval gap between the two moves in pawns, capped for mates
+}
+
+export interface CompareResult {
+	comparison: Comparison;
+	pickedIndex: 0 | 1;
+	isCorrect: boolean;
+	gapGuess: number | null;
+	gapBonus: number;
+	points: number;
+}
+
+export interface CompareState {
+	streak: number;
+	bestStreak: number;
+	attempts: number;
+	correct: number;
+	points: number;
+}
+
+// Analysis settings
+export const COMPARE_DEPTH = 14;
+const MULTI_PV = 4;
+
+// Candidate pairs must differ by at least this much win probability to have a clear answer;
+// among those, the pair closest to the target gap makes the most interesting question
+const MIN_WIN_CHANCE_GAP = 0.04;
+const TARGET_WIN_CHANCE_GAP = 0.12;
+
+// Gaps beyond this many pawns (and mates) are capped
+const MAX_GAP = 10;
+
+// Scoring: picking the better move, plus a bonus for an accurate gap guess
+const PICK_POINTS = 100;
+const MAX_GAP_BONUS = 50;
+const GAP_BONUS_RANGE = 2; // Pawns of gap error at which the bonus reaches zero
+
+/**
+ * Pick two candidate moves from a MultiPV snapshot: the best move and the
+ * alternative whose gap is closest to the target. Returns null when no
+ * alternative differs enough from the best move.
+ */
+export function pickCandidates(
+	fen: FEN,
+	snapshot: AnalysisSnapshot,
+	random: () => number = Math.random
+): Comparison | null {
+	const isBlackToMove = fen.split(' ')[1] === 'b';
+
+	// Only complete lines from the final depth
+	const lines = Array.from(snapshot.moves.values())
+		.filter(
+			(analysis) => analysis.depth === snapshot.depth && analysis.multipv && analysis.pv?.length
+		)
+		.sort((a, b) => (a.multipv ?? 1) - (b.multipv ?? 1))
+		.map((analysis) => toCandidate(fen, analysis, isBlackToMove));
+
+	const [best, ...alternatives] = lines;
+	if (!best) return null;
+
+	const clearAlternatives = alternatives.filter(
+		(candidate) => best.winChance - candidate.winChance >= MIN_WIN_CHANCE_GAP
+	);
+	if (clearAlternatives.length === 0) return null;
+
+	const other = clearAlternatives.reduce((closest, candidate) =>
+		Math.abs(best.winChance - candidate.winChance - TARGET_WIN_CHANCE_GAP) <
+		Math.abs(best.winChance - closest.winChance - TARGET_WIN_CHANCE_GAP)
+			? candidate
+			: closest
+	);
+
+	// Shuffle which arrow is A and which is B
+	const betterIndex: 0 | 1 = random() < 0.5 ? 0 : 1;
+	const candidates: [CandidateMove, CandidateMove] =
+		betterIndex === 0 ? [best, other] : [other, best];
+
+	return {
+		fen,
+		candidates,
+		betterIndex,
+		gap: Math.abs(pawnsForMover(best, isBlackToMove) - pawnsForMover(other, isBlackToMove))
+	};
+}
+
+function toCandidate(fen: FEN, analysis: MoveAnalysisData, isBlackToMove: boolean): CandidateMove {
+	// Engine scores are from the side to move
+	const moverScore = toEvaluationScore(analysis.score);
+	const whiteValue = isBlackToMove ? -analysis.score.value : analysis.score.value;
+
+	return {
+		move: analysis.move,
+		san: uciToSan(fen, analysis.move).san,
+		multipv: analysis.multipv ?? 1,
+		evaluation: toEvaluationScore({ type: analysis.score.type, value: whiteValue }),
+		winChance: evaluationToWinChance(moverScore)
+	};
+}
+
+// Evaluation in pawns for the side to move, capped for the gap
+function pawnsForMover(candidate: CandidateMove, isBlackToMove: boolean): number {
+	const { evaluation } = candidate;
+	const pawns = evaluation.isMate ? Math.sign(evaluation.score) * MAX_GAP : evaluation.score;
+	const forMover = isBlackToMove ? -pawns : pawns;
+	return Math.max(-MAX_GAP, Math.min(MAX_GAP, forMover));
+}
+
+/**
+ * Bonus for guessing the eval gap, shrinking linearly with the error
+ */
+export function gapBonus(gapGuess: number, gap: number): number {
+	const error = Math.abs(Math.abs(gapGuess) - gap);
+	return Math.round(MAX_GAP_BONUS * Math.max(0, 1 - error / GAP_BONUS_RANGE));
+}
+
+export class CompareManager {
+	private engine: EngineClient | null = null;
+	private parser = new UCIParser();
+	private state: CompareState = {
+		streak: 0,
+		bestStreak: 0,
+		attempts: 0,
+		correct: 0,
+		points: 0
+	};
+	private stateChangeCallback?: (state: CompareState) => void;
+
+	/**
+	 * Initialize Stockfish worker
+	 */
+	initEngine(workerPath: string = '/stockfish.js'): void {
+		if (typeof Worker === 'undefined') return;
+
+		this.engine = new EngineClient({ workerPath });
+		this.engine.setOption('MultiPV', MULTI_PV);
+	}
+
+	/**
+	 * Analyze a position and pick the two moves to compare
+	 * Resolves to null when the position has no clear pair of moves, or the
+	 * analysis was cancelled
+	 */
+	async prepare(fen: FEN): Promise<Comparison | null> {
+		const snapshot = await this.analyze(fen);
+		return snapshot ? pickCandidates(fen, snapshot) : null;
+	}
+
+	/**
+	 * Score the player's pick and optional gap guess
+	 */
+	submitPick(
+		comparison: Comparison,
+		pickedIndex: 0 | 1,
+		gapGuess: number | null = null
+	): CompareResult {
+		const isCorrect = pickedIndex === comparison.betterIndex;
+		const bonus = isCorrect && gapGuess !== null ? gapBonus(gapGuess, comparison.gap) : 0;
+		const points = (isCorrect ? PICK_POINTS : 0) + bonus;
+
+		this.state.attempts++;
+		this.state.points += points;
+		if (isCorrect) {
+			this.state.correct++;
+			this.state.streak++;
+			this.state.bestStreak = Math.max(this.state.bestStreak, this.state.streak);
+		} else {
+			this.state.streak = 0;
+		}
+		this.stateChangeCallback?.(this.getState());
+
+		return { comparison, pickedIndex, isCorrect, gapGuess, gapBonus: bonus, points };
+	}
+
+	/**
+	 * Set callback for state changes
+	 */
+	onStateChange(callback: (state: CompareState) => void): void {
+		this.stateChangeCallback = callback;
+	}
+
+	getState(): CompareState {
+		return { ...this.state };
+	}
+
+	/**
+	 * Clean up resources
+	 */
+	destroy(): void {
+		if (this.engine) {
+			this.engine.terminate();
+			this.engine = null;
+		}
+	}
+
+	private async analyze(fen: FEN): Promise<AnalysisSnapshot | null> {
+		if (!this.engine) {
+			throw new Error('Engine not initialized');
+		}
+
+		this.parser.reset();
+		this.parser.setSideToMove(fen.split(' ')[1] === 'b');
+
+		await this.engine.newGame();
+		const search = this.engine.analyze(fen, { depth: COMPARE_DEPTH });
+		for await (const info of search) {
+			this.parser.parseInfo(info.line);
+		}
+
+		const bestMove = await search.result;
+		return bestMove ? this.parser.handleBestMove(`bestmove ${bestMove.move ?? '(none)'}`) : null;
+	}
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import {
+	DAILY_POSITION_COUNT,
+	dailyDate,
+	outcomeEmoji,
+	pickDailyIndices,
+	shareText
+} from './daily';
+
+describe('dailyDate', () => {
+	it('rolls over at midnight UTC', () => {
+		expect(dailyDate(new Date('2026-10-18T23:59:59Z'))).toBe('2026-10-18');
+		expect(dailyDate(new Date('2026-10-19T00:00:00Z'))).toBe('2026-10-19');
+	});
+});
+
+describe('pickDailyIndices', () => {
+	it('picks the same distinct indices for the same date', () => {
+		const indices = pickDailyIndices('2026-10-18', 100);
+
+		expect(indices).toHaveLength(DAILY_POSITION_COUNT);
+		expect(new Set(indices).size).toBe(DAILY_POSITION_COUNT);
+		expect(indices.every((index) => index >= 0 && index < 100)).toBe(true);
+		expect(pickDailyIndices('2026-10-18', 100)).toEqual(indices);
+	});
+
+	it('picks different positions on different days', () => {
+		expect(pickDailyIndices('2026-10-19', 1000)).not.toEqual(pickDailyIndices('2026-10-18', 1000));
+	});
+
+	it('uses the whole bank when it is smaller than the challenge', () => {
+		expect(pickDailyIndices('2026-10-18', 3).sort()).toEqual([0, 1, 2]);
+	});
+});
+
+describe('shareText', () => {
+	it('shows one square per position without revealing evaluations', () => {
+		const text = shareText(
+			'2026-10-18',
+			[
+				{ error: 0.02, points: 96, isCorrect: true },
+				{ error: 0.15, points: 70, isCorrect: false },
+				{ error: 0.4, points: 20, isCorrect: false }
+			],
+			'https://example.com/daily'
+		);
+
+		expect(text).toBe(
+			'Eval Guesser Daily 2026-10-18\n1/3 · 186 pts\n🟩🟨🟥\nhttps://example.com/daily'
+		);
+	});
+
+	it('marks near misses by the scoring tolerance', () => {
+		expect(outcomeEmoji({ error: 0.2, points: 60, isCorrect: false })).toBe('🟨');
+		expect(outcomeEmoji({ error: 0.21, points: 58, isCorrect: false })).toBe('🟥');
+	});
+});
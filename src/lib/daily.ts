@@ -0,0 +1,116 @@
+/**
+ * Daily challenge
+ * Everyone gets the same positions each day, picked from the bank with a seed
+ * derived from the date, and shares their result as an emoji grid
+ */
+
+import { DEFAULT_SCORING_MODEL, type ScoringModel } from '$lib/scoring';
+import type { MoveScore } from '$lib/uciParser';
+
+export const DAILY_POSITION_COUNT = 5;
+
+/** Outcome of one daily guess, as shown in the share grid */
+export interface DailyOutcome {
+	error: number; // Win-probability error
+	points: number;
+	isCorrect: boolean;
+}
+
+/** A player's scored guess on one slot of a daily challenge */
+export interface DailyResult extends DailyOutcome {
+	slot: number;
+	positionId: number;
+	guess: MoveScore; // White's perspective
+	engine: MoveScore;
+}
+
+export interface DailyStanding {
+	rank: number;
+	userId: number;
+	name: string;
+	points: number;
+	correct: number;
+}
+
+// Errors up to this multiple of the tolerance count as a near miss
+const NEAR_MISS_MULTIPLE = 2;
+
+/**
+ * The challenge date for a moment in time: days roll over at midnight UTC
+ */
+export function dailyDate(now: Date = new Date()): string {
+	return now.toISOString().slice(0, 10);
+}
+
+/**
+ * 32-bit seed for a date string (FNV-1a)
+ */
+export function dateSeed(date: string): number {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < date.length; i++) {
+		hash ^= date.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return hash >>> 0;
+}
+
+/**
+ * Deterministic random numbers in [0, 1) from a seed (mulberry32)
+ */
+export function seededRandom(seed: number): () => number {
+	let state = seed >>> 0;
+	return () => {
+		state = (state + 0x6d2b79f5) >>> 0;
+		let t = state;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+}
+
+/**
+ * Distinct indices into a bank of the given size for a date's challenge
+ * The same date and bank size always give the same indices
+ */
+export function pickDailyIndices(
+	date: string,
+	bankSize: number,
+	count: number = DAILY_POSITION_COUNT
+): number[] {
+	const random = seededRandom(dateSeed(date));
+	const indices: number[] = [];
+
+	while (indices.length < Math.min(count, bankSize)) {
+		const index = Math.floor(random() * bankSize);
+		if (!indices.includes(index)) indices.push(index);
+	}
+	return indices;
+}
+
+/**
+ * Share grid square for a guess: green when correct, yellow for a near miss, red otherwise
+ */
+export function outcomeEmoji(
+	outcome: DailyOutcome,
+	model: ScoringModel = DEFAULT_SCORING_MODEL
+): string {
+	if (outcome.isCorrect) return '🟩';
+	if (outcome.error <= model.tolerance * NEAR_MISS_MULTIPLE) return '🟨';
+	return '🟥';
+}
+
+/**
+ * Spoiler-free result text to paste into a chat
+ */
+export function shareText(date: string, outcomes: DailyOutcome[], url?: string): string {
+	const correct = outcomes.filter((outcome) => outcome.isCorrect).length;
+	const points = outcomes.reduce((sum, outcome) => sum + outcome.points, 0);
+
+	const lines = [
+		`Eval Guesser Daily ${date}`,
+		`${correct}/${outcomes.length} · ${points} pts`,
+		outcomes.map((outcome) => outcomeEmoji(outcome)).join('')
+	];
+	if (url) lines.push(url);
+	return lines.join('\n');
+}
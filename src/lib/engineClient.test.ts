@@ -0,0 +1,210 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { EngineClient, type EngineInfo } from './engineClient';
+import { engineSettings } from './engineSettings';
+
+const START_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+
+/** Minimal stand-in for the Stockfish worker: answers the handshake and stops searches on request */
+class FakeEngine {
+	static instance: FakeEngine;
+	commands: string[] = [];
+	onmessage: ((event: MessageEvent<string>) => void) | null = null;
+	searching = false;
+
+	constructor() {
+		FakeEngine.instance = this;
+	}
+
+	postMessage(command: string): void {
+		this.commands.push(command);
+		if (command === 'uci') {
+			this.emit(
+				'id name Fakefish 1',
+				'option name MultiPV type spin default 1 min 1 max 500',
+				'option name Skill Level type spin default 20 min 0 max 20',
+				'uciok'
+			);
+		} else if (command === 'isready') {
+			this.emit('readyok');
+		} else if (command.startsWith('go')) {
+			this.searching = true;
+		} else if (command === 'stop' && this.searching) {
+			this.finish('e2e4');
+		}
+	}
+
+	info(line: string): void {
+		this.emit(line);
+	}
+
+	finish(move: string): void {
+		this.searching = false;
+		this.emit(`bestmove ${move}`);
+	}
+
+	terminate(): void {}
+
+	private emit(...lines: string[]): void {
+		setTimeout(() => {
+			for (const line of lines) this.onmessage?.({ data: line } as MessageEvent<string>);
+		}, 0);
+	}
+}
+
+/** A worker that never answers */
+class SilentEngine {
+	onmessage: ((event: MessageEvent<string>) => void) | null = null;
+	postMessage(): void {}
+	terminate(): void {}
+}
+
+// Let the fake engine's replies and the client's follow-up commands run
+async function settle(): Promise<void> {
+	for (let i = 0; i < 10; i++) {
+		await new Promise((resolve) => setTimeout(resolve, 0));
+	}
+}
+
+async function collect(search: AsyncIterable<EngineInfo>): Promise<EngineInfo[]> {
+	const infos: EngineInfo[] = [];
+	for await (const info of search) infos.push(info);
+	return infos;
+}
+
+describe('EngineClient', () => {
+	beforeEach(() => {
+		vi.stubGlobal('Worker', FakeEngine);
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+		engineSettings.reset();
+	});
+
+	it('waits for uciok and readyok before searching', async () => {
+		const client = new EngineClient();
+		const identity = client.init();
+		const search = client.analyze(START_FEN, { depth: 10 });
+
+		expect(FakeEngine.instance.commands).toEqual(['uci']);
+		await settle();
+
+		expect(await identity).toEqual({ name: 'Fakefish 1' });
+		expect(FakeEngine.instance.commands).toEqual([
+			'uci',
+			'isready',
+			`position fen ${START_FEN}`,
+			'go depth 10'
+		]);
+
+		FakeEngine.instance.info('info depth 10 multipv 1 score cp 20 pv e2e4');
+		FakeEngine.instance.finish('e2e4');
+		const infos = collect(search);
+		await settle();
+
+		expect((await infos).map((info) => info.depth)).toEqual([10]);
+		expect(await search.result).toEqual({ searchId: search.id, move: 'e2e4', ponder: undefined });
+	});
+
+	it('stops a running search and drops its output before starting the next', async () => {
+		const client = new EngineClient();
+		const first = client.analyze(START_FEN, { infinite: true });
+		await settle();
+
+		FakeEngine.instance.info('info depth 5 multipv 1 score cp 10 pv d2d4');
+		const second = client.analyze(START_FEN, { depth: 8 }, ['e2e4']);
+		const secondInfos = collect(second);
+		await settle();
+
+		expect(await first.result).toBeNull();
+		expect(FakeEngine.instance.commands.slice(-3)).toEqual([
+			'stop',
+			`position fen ${START_FEN} moves e2e4`,
+			'go depth 8'
+		]);
+
+		FakeEngine.instance.info('info depth 8 multipv 1 score cp -15 pv e7e5');
+		FakeEngine.instance.finish('e7e5');
+		await settle();
+
+		const infos = await secondInfos;
+		expect(infos).toHaveLength(1);
+		expect(infos[0]).toMatchObject({ searchId: second.id, depth: 8, multipv: 1 });
+		expect((await second.result)?.move).toBe('e7e5');
+	});
+
+	it('still delivers the best move of a stopped search', async () => {
+		const client = new EngineClient();
+		const search = client.analyze(START_FEN);
+		await settle();
+
+		expect(FakeEngine.instance.commands.at(-1)).toBe('go infinite');
+		search.stop();
+		await settle();
+
+		expect((await search.result)?.move).toBe('e2e4');
+	});
+
+	it('waits for readyok after setting an option', async () => {
+		const client = new EngineClient();
+		const applied = client.setOption('MultiPV', 4);
+		await settle();
+		await applied;
+
+		expect(FakeEngine.instance.commands).toEqual([
+			'uci',
+			'isready',
+			'setoption name MultiPV value 4',
+			'isready'
+		]);
+	});
+
+	it('discovers options and applies saved settings during the handshake', async () => {
+		engineSettings.setValue('Skill Level', 5);
+		engineSettings.setValue('Contempt', 30); // Not an option of this engine
+
+		const client = new EngineClient({ applySavedSettings: true });
+		await Promise.all([client.init(), settle()]);
+
+		expect(client.getOptions().map((option) => option.name)).toEqual(['MultiPV', 'Skill Level']);
+		expect(FakeEngine.instance.commands).toEqual([
+			'uci',
+			'setoption name Skill Level value 5',
+			'isready'
+		]);
+	});
+
+	it('leaves saved settings alone unless asked to apply them', async () => {
+		engineSettings.setValue('Skill Level', 5);
+
+		const client = new EngineClient();
+		await Promise.all([client.init(), settle()]);
+
+		expect(FakeEngine.instance.commands).toEqual(['uci', 'isready']);
+	});
+
+	it('gives up on an engine that does not answer and starts over on the next init', async () => {
+		vi.stubGlobal('Worker', SilentEngine);
+		const client = new EngineClient({ handshakeTimeout: 20 });
+
+		await expect(client.init()).rejects.toThrow('Engine did not answer uci');
+
+		vi.stubGlobal('Worker', FakeEngine);
+		const retry = client.init();
+		await settle();
+		expect(await retry).toEqual({ name: 'Fakefish 1' });
+	});
+
+	it('resets options left out of new settings to their defaults', async () => {
+		const client = new EngineClient();
+		const applied = client.applySettings({ MultiPV: 3 });
+		await settle();
+		await applied;
+
+		expect(FakeEngine.instance.commands.slice(2)).toEqual([
+			'setoption name MultiPV value 3',
+			'setoption name Skill Level value 20',
+			'isready'
+		]);
+	});
+});
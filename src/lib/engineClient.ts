@@ -0,0 +1,453 @@
+/**
+ * Engine Client
+ * Promise-based wrapper around the Stockfish Web Worker: waits for the UCI
+ * handshake, stops a running search before starting the next one, and tags
+ * every search with a request ID so output from a cancelled search is dropped.
+ * Clients that opt in apply the saved engine settings as part of the handshake.
+ */
+
+import type { FEN, StockfishMessage, StockfishWorker } from '$lib/types/chess';
+import { parseInfoLine, type UCIInfo } from '$lib/uciParser';
+import {
+	applicableSettings,
+	defaultSettings,
+	parseOptionLine,
+	type EngineOption,
+	type EngineSettings
+} from '$lib/engineOptions';
+import { engineSettings, getEngineSettings } from '$lib/engineSettings';
+
+/** Search limits for the `go` command; with none given the search is infinite */
+export interface SearchLimits {
+	depth?: number;
+	movetime?: number; // Milliseconds
+	nodes?: number;
+	infinite?: boolean;
+}
+
+export interface EngineIdentity {
+	name?: string;
+	author?: string;
+}
+
+/** An `info` line from a search, with its parsed fields */
+export interface EngineInfo extends UCIInfo {
+	searchId: number;
+	line: string; // Raw UCI line, for UCIParser
+}
+
+export interface BestMove {
+	searchId: number;
+	move: string | null; // UCI, or null when there is no legal move
+	ponder?: string;
+}
+
+/**
+ * A running search: iterate it for `info` lines, await `result` for the best move
+ */
+export interface EngineSearch extends AsyncIterable<EngineInfo> {
+	readonly id: number;
+	/** Resolves with the best move, or null when the search was cancelled */
+	readonly result: Promise<BestMove | null>;
+	/** Finish the search early; its best move is still delivered */
+	stop(): void;
+	/** Abandon the search; its remaining output is dropped */
+	cancel(): void;
+}
+
+export interface EngineClientOptions {
+	workerPath?: string;
+	/** Apply the player's saved engine settings; only for engines the settings panel is meant for */
+	applySavedSettings?: boolean;
+	/** How long to wait for each handshake reply before giving up, in milliseconds */
+	handshakeTimeout?: number;
+}
+
+const DEFAULT_WORKER_PATH = '/stockfish.js';
+const DEFAULT_HANDSHAKE_TIMEOUT = 30_000;
+
+// Reject with `message` when the engine does not answer in time
+function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+	return new Promise((resolve, reject) => {
+		const timer = setTimeout(() => reject(new Error(message)), ms);
+		promise.then(
+			(value) => {
+				clearTimeout(timer);
+				resolve(value);
+			},
+			(e) => {
+				clearTimeout(timer);
+				reject(e);
+			}
+		);
+	});
+}
+
+/**
+ * Single-consumer async queue feeding a search's `info` lines to `for await`
+ */
+class InfoStream implements AsyncIterable<EngineInfo> {
+	private queue: EngineInfo[] = [];
+	private waiting: ((result: IteratorResult<EngineInfo>) => void) | null = null;
+	private closed = false;
+
+	push(info: EngineInfo): void {
+		if (this.closed) return;
+		if (this.waiting) {
+			const resolve = this.waiting;
+			this.waiting = null;
+			resolve({ value: info, done: false });
+		} else {
+			this.queue.push(info);
+		}
+	}
+
+	/** End the stream; with `discard`, lines not yet consumed are dropped too */
+	close(discard: boolean = false): void {
+		this.closed = true;
+		if (discard) this.queue = [];
+		if (this.waiting) {
+			const resolve = this.waiting;
+			this.waiting = null;
+			resolve({ value: undefined, done: true });
+		}
+	}
+
+	[Symbol.asyncIterator](): AsyncIterator<EngineInfo> {
+		return {
+			next: () => {
+				const info = this.queue.shift();
+				if (info) return Promise.resolve({ value: info, done: false });
+				if (this.closed) return Promise.resolve({ value: undefined, done: true });
+				return new Promise((resolve) => {
+					this.waiting = resolve;
+				});
+			}
+		};
+	}
+}
+
+/** Book-keeping for a search the engine has been (or will be) asked to run */
+interface PendingSearch {
+	id: number;
+	stream: InfoStream;
+	result: Promise<BestMove | null>;
+	resolve: (result: BestMove | null) => void;
+	done: Promise<void>; // Resolves once the search has ended, or was dropped before it started
+	markDone: () => void;
+	cancelled: boolean;
+	stopRequested: boolean;
+	finished: boolean;
+}
+
+export class EngineClient {
+	private worker: StockfishWorker | null = null;
+	private workerPath: string;
+	private applySavedSettings: boolean;
+	private handshakeTimeout: number;
+	private initialization: Promise<EngineIdentity> | null = null;
+	private identity: EngineIdentity = {};
+	private options: EngineOption[] = [];
+	private uciOkWaiters: (() => void)[] = [];
+	private readyWaiters: (() => void)[] = [];
+	private nextSearchId = 1;
+	// Searches not yet finished, whether queued or running
+	private live: PendingSearch[] = [];
+	// Searches sent to the engine, oldest first; each `go` ends with exactly one `bestmove`
+	private running: PendingSearch[] = [];
+	// Serializes commands so a new search only starts after the previous one has ended
+	private commandChain: Promise<void> = Promise.resolve();
+
+	constructor({
+		workerPath = DEFAULT_WORKER_PATH,
+		applySavedSettings = false,
+		handshakeTimeout = DEFAULT_HANDSHAKE_TIMEOUT
+	}: EngineClientOptions = {}) {
+		this.workerPath = workerPath;
+		this.applySavedSettings = applySavedSettings;
+		this.handshakeTimeout = handshakeTimeout;
+	}
+
+	/**
+	 * Start the worker and complete the UCI handshake (`uciok`, then `readyok`)
+	 * Safe to call more than once; later calls return the same handshake. A failed or
+	 * timed-out handshake terminates the worker, so the next call starts over.
+	 */
+	init(): Promise<EngineIdentity> {
+		if (!this.initialization) {
+			const initialization = this.handshake();
+			this.initialization = initialization;
+			initialization.catch(() => {
+				if (this.initialization === initialization) this.terminate();
+			});
+		}
+		return this.initialization;
+	}
+
+	/**
+	 * Set a UCI option and wait until the engine has applied it
+	 */
+	async setOption(name: string, value?: string | number | boolean): Promise<void> {
+		await this.enqueue(async () => {
+			this.send(
+				value === undefined ? `setoption name ${name}` : `setoption name ${name} value ${value}`
+			);
+			await this.isReady();
+		});
+	}
+
+	/**
+	 * Apply engine settings, by default the saved ones; options left out go back to their defaults
+	 * Any search still queued or running is cancelled first, since options can only change between searches
+	 */
+	async applySettings(settings: EngineSettings = getEngineSettings()): Promise<void> {
+		this.cancelAll();
+		await this.enqueue(async () => {
+			await Promise.all(this.running.map((previous) => previous.done));
+			this.sendSettings({ ...defaultSettings(this.options), ...settings });
+			await this.isReady();
+		});
+	}
+
+	/**
+	 * Tell the engine the next search is from an unrelated game
+	 */
+	async newGame(): Promise<void> {
+		await this.enqueue(async () => {
+			this.send('ucinewgame');
+			await this.isReady();
+		});
+	}
+
+	/**
+	 * Search a position. Any search still queued or running is cancelled first.
+	 * `moves` are UCI moves played from `fen` before the search starts.
+	 */
+	analyze(fen: FEN, limits: SearchLimits = {}, moves: string[] = []): EngineSearch {
+		this.cancelAll();
+
+		const search = this.createSearch();
+		const position =
+			moves.length > 0 ? `position fen ${fen} moves ${moves.join(' ')}` : `position fen ${fen}`;
+
+		this.enqueue(async () => {
+			// Wait for earlier searches to end so their output cannot be mistaken for ours
+			await Promise.all(this.running.map((previous) => previous.done));
+			if (search.cancelled) {
+				this.finish(search, null);
+				return;
+			}
+
+			this.running.push(search);
+			this.send(position);
+			this.send(goCommand(limits));
+			if (search.stopRequested) this.send('stop');
+		}).catch((e) => {
+			console.error('Engine search failed:', e);
+			this.finish(search, null);
+		});
+
+		return {
+			id: search.id,
+			result: search.result,
+			stop: () => this.stopSearch(search),
+			cancel: () => this.cancel(search),
+			[Symbol.asyncIterator]: () => search.stream[Symbol.asyncIterator]()
+		};
+	}
+
+	/**
+	 * Search a position and return only the best move
+	 */
+	async bestMove(fen: FEN, limits: SearchLimits, moves: string[] = []): Promise<BestMove | null> {
+		return this.analyze(fen, limits, moves).result;
+	}
+
+	/**
+	 * Stop the current search early; its best move is still delivered
+	 */
+	stop(): void {
+		this.live.forEach((search) => this.stopSearch(search));
+	}
+
+	getIdentity(): EngineIdentity {
+		return { ...this.identity };
+	}
+
+	/**
+	 * Options the engine reported during the handshake
+	 */
+	getOptions(): EngineOption[] {
+		return [...this.options];
+	}
+
+	/**
+	 * Cancel every search and terminate the worker
+	 * Commands still waiting on the old worker are abandoned; `init` starts a new one
+	 */
+	terminate(): void {
+		for (const search of [...this.live]) {
+			search.cancelled = true;
+			search.stream.close(true);
+			this.finish(search, null);
+		}
+		this.running = [];
+		this.uciOkWaiters = [];
+		this.readyWaiters = [];
+		this.commandChain = Promise.resolve();
+
+		if (this.worker) {
+			this.worker.terminate();
+			this.worker = null;
+		}
+		this.initialization = null;
+	}
+
+	private async handshake(): Promise<EngineIdentity> {
+		if (typeof Worker === 'undefined') {
+			throw new Error('Web Workers are not available');
+		}
+
+		this.worker = new Worker(this.workerPath) as StockfishWorker;
+		this.worker.onmessage = this.handleMessage.bind(this);
+		this.options = [];
+
+		const uciOk = new Promise<void>((resolve) => this.uciOkWaiters.push(resolve));
+		this.send('uci');
+		await withTimeout(uciOk, this.handshakeTimeout, 'Engine did not answer uci');
+
+		engineSettings.recordOptions(this.options);
+		if (this.applySavedSettings) this.sendSettings(getEngineSettings());
+		await withTimeout(this.isReady(), this.handshakeTimeout, 'Engine did not answer isready');
+
+		return this.getIdentity();
+	}
+
+	// Send the settings this engine supports; the caller waits for readyok
+	private sendSettings(settings: EngineSettings): void {
+		for (const [name, value] of applicableSettings(this.options, settings)) {
+			this.send(`setoption name ${name} value ${value}`);
+		}
+	}
+
+	private isReady(): Promise<void> {
+		const ready = new Promise<void>((resolve) => this.readyWaiters.push(resolve));
+		this.send('isready');
+		return ready;
+	}
+
+	// Run a command sequence once the handshake and any earlier commands are done
+	private enqueue(command: () => Promise<void>): Promise<void> {
+		const run = this.commandChain.then(async () => {
+			await this.init();
+			await command();
+		});
+		// Keep the chain going after a failure
+		this.commandChain = run.catch(() => undefined);
+		return run;
+	}
+
+	private createSearch(): PendingSearch {
+		let resolve: (result: BestMove | null) => void = () => undefined;
+		let markDone: () => void = () => undefined;
+		const result = new Promise<BestMove | null>((r) => {
+			resolve = r;
+		});
+		const done = new Promise<void>((r) => {
+			markDone = r;
+		});
+
+		const search: PendingSearch = {
+			id: this.nextSearchId++,
+			stream: new InfoStream(),
+			result,
+			resolve,
+			done,
+			markDone,
+			cancelled: false,
+			stopRequested: false,
+			finished: false
+		};
+		this.live.push(search);
+		return search;
+	}
+
+	private stopSearch(search: PendingSearch): void {
+		if (search.finished || search.stopRequested) return;
+
+		search.stopRequested = true;
+		// A queued search is stopped as soon as it starts
+		if (this.running.includes(search)) this.send('stop');
+	}
+
+	private cancel(search: PendingSearch): void {
+		if (search.finished || search.cancelled) return;
+
+		search.cancelled = true;
+		search.stream.close(true);
+		search.resolve(null);
+		// A running search ends with its bestmove; a queued one never starts
+		if (this.running.includes(search)) this.stopSearch(search);
+	}
+
+	private cancelAll(): void {
+		[...this.live].forEach((search) => this.cancel(search));
+	}
+
+	private finish(search: PendingSearch, result: BestMove | null): void {
+		if (search.finished) return;
+
+		search.finished = true;
+		search.stream.close();
+		search.resolve(search.cancelled ? null : result);
+		search.markDone();
+		this.live = this.live.filter((s) => s !== search);
+	}
+
+	private handleMessage(event: MessageEvent<StockfishMessage>): void {
+		const message = event.data;
+		if (typeof message !== 'string') return;
+
+		if (message.startsWith('info ')) {
+			// Output belongs to the oldest search the engine has not finished
+			const search = this.running[0];
+			if (search && !search.cancelled) {
+				search.stream.push({ ...parseInfoLine(message), searchId: search.id, line: message });
+			}
+		} else if (message.startsWith('bestmove')) {
+			const search = this.running.shift();
+			if (search) {
+				const [, move, , ponder] = message.trim().split(/\s+/);
+				this.finish(search, {
+					searchId: search.id,
+					move: move && move !== '(none)' ? move : null,
+					ponder
+				});
+			}
+		} else if (message === 'uciok') {
+			this.uciOkWaiters.splice(0).forEach((resolve) => resolve());
+		} else if (message === 'readyok') {
+			this.readyWaiters.shift()?.();
+		} else if (message.startsWith('option ')) {
+			const option = parseOptionLine(message);
+			if (option) this.options.push(option);
+		} else if (message.startsWith('id name ')) {
+			this.identity.name = message.slice('id name '.length);
+		} else if (message.startsWith('id author ')) {
+			this.identity.author = message.slice('id author '.length);
+		}
+	}
+
+	private send(command: string): void {
+		this.worker?.postMessage(command);
+	}
+}
+
+function goCommand(limits: SearchLimits): string {
+	const parts = ['go'];
+	if (limits.depth !== undefined) parts.push(`depth ${limits.depth}`);
+	if (limits.movetime !== undefined) parts.push(`movetime ${limits.movetime}`);
+	if (limits.nodes !== undefined) parts.push(`nodes ${limits.nodes}`);
+	if (limits.infinite || parts.length === 1) parts.push('infinite');
+	return parts.join(' ');
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import {
+	applicableSettings,
+	defaultSettings,
+	isConfigurable,
+	parseOptionLine,
+	validateOptionValue,
+	type EngineOption
+} from './engineOptions';
+
+// Sent by the bundled Stockfish after `uci`
+const TRANSCRIPT = [
+	'option name Debug Log File type string default ',
+	'option name Contempt type spin default 21 min -100 max 100',
+	'option name Analysis Contempt type combo default Both var Both var Off var White var Black',
+	'option name Threads type spin default 1 min 1 max 1',
+	'option name Hash type spin default 16 min 16 max 16',
+	'option name Clear Hash type button',
+	'option name Ponder type check default false',
+	'option name MultiPV type spin default 1 min 1 max 500',
+	'option name Skill Level type spin default 20 min 0 max 20',
+	'option name Minimum Thinking Time type spin default 20 min 0 max 5000',
+	'option name UCI_Chess960 type check default false'
+];
+
+const OPTIONS = TRANSCRIPT.map(parseOptionLine).filter(
+	(option): option is EngineOption => option !== null
+);
+
+describe('parseOptionLine', () => {
+	it('parses every option type', () => {
+		expect(OPTIONS).toHaveLength(TRANSCRIPT.length);
+		expect(OPTIONS[1]).toEqual({
+			name: 'Contempt',
+			type: 'spin',
+			default: 21,
+			min: -100,
+			max: 100
+		});
+		expect(OPTIONS[2]).toEqual({
+			name: 'Analysis Contempt',
+			type: 'combo',
+			default: 'Both',
+			vars: ['Both', 'Off', 'White', 'Black']
+		});
+		expect(OPTIONS[5]).toEqual({ name: 'Clear Hash', type: 'button' });
+		expect(OPTIONS[6]).toEqual({ name: 'Ponder', type: 'check', default: false });
+		expect(OPTIONS[0]).toEqual({ name: 'Debug Log File', type: 'string', default: '' });
+	});
+
+	it('keeps multi-word names whole', () => {
+		expect(OPTIONS[9].name).toBe('Minimum Thinking Time');
+		expect(
+			parseOptionLine('option name Slow Mover type spin default 84 min 10 max 1000')?.name
+		).toBe('Slow Mover');
+	});
+
+	it('rejects malformed and non-option lines', () => {
+		expect(parseOptionLine('option name Hash type spin default 16')).toBeNull();
+		expect(parseOptionLine('option name Mystery type dial default 3')).toBeNull();
+		expect(parseOptionLine('id name Stockfish')).toBeNull();
+	});
+});
+
+describe('engine settings', () => {
+	it('hides buttons and options the app sets itself', () => {
+		const names = OPTIONS.filter(isConfigurable).map((option) => option.name);
+		expect(names).toEqual([
+			'Contempt',
+			'Analysis Contempt',
+			'Threads',
+			'Hash',
+			'MultiPV',
+			'Skill Level',
+			'Minimum Thinking Time'
+		]);
+	});
+
+	it('clamps spins and rejects values that do not fit', () => {
+		const multiPV = OPTIONS[7];
+		expect(validateOptionValue(multiPV, 900)).toBe(500);
+		expect(validateOptionValue(multiPV, '3')).toBe(3);
+		expect(validateOptionValue(multiPV, 'many')).toBeNull();
+		expect(validateOptionValue(OPTIONS[2], 'Sideways')).toBeNull();
+		expect(validateOptionValue(OPTIONS[6], 'true')).toBeNull();
+	});
+
+	it('applies only saved settings the engine supports', () => {
+		const settings = {
+			MultiPV: 3,
+			'Skill Level': 40,
+			Ponder: true,
+			UCI_Elo: 1500,
+			'Analysis Contempt': 'Off'
+		};
+		expect(applicableSettings(OPTIONS, settings)).toEqual([
+			['Analysis Contempt', 'Off'],
+			['MultiPV', 3],
+			['Skill Level', 20]
+		]);
+	});
+
+	it('lists the defaults of configurable options', () => {
+		expect(defaultSettings(OPTIONS)).toMatchObject({
+			Contempt: 21,
+			MultiPV: 1,
+			'Analysis Contempt': 'Both'
+		});
+		expect(defaultSettings(OPTIONS)).not.toHaveProperty('Ponder');
+	});
+});
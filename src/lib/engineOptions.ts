@@ -0,0 +1,173 @@
+/**
+ * Engine options
+ * Typed schema for the `option name ... type ...` lines an engine sends after `uci`,
+ * and validation of saved settings against it
+ */
+
+export type EngineOptionValue = string | number | boolean;
+
+interface BaseOption {
+	name: string;
+}
+
+export interface CheckOption extends BaseOption {
+	type: 'check';
+	default: boolean;
+}
+
+export interface SpinOption extends BaseOption {
+	type: 'spin';
+	default: number;
+	min: number;
+	max: number;
+}
+
+export interface ComboOption extends BaseOption {
+	type: 'combo';
+	default: string;
+	vars: string[];
+}
+
+export interface StringOption extends BaseOption {
+	type: 'string';
+	default: string;
+}
+
+export interface ButtonOption extends BaseOption {
+	type: 'button';
+}
+
+export type EngineOption = CheckOption | SpinOption | ComboOption | StringOption | ButtonOption;
+
+/** Saved option values by option name; options left out keep the engine default */
+export type EngineSettings = Record<string, EngineOptionValue>;
+
+// Options the app sets itself, or that make no sense in the browser
+const HIDDEN_OPTIONS = new Set([
+	'Debug Log File',
+	'Ponder',
+	'UCI_AnalyseMode',
+	'UCI_Chess960',
+	'UCI_Elo',
+	'UCI_LimitStrength',
+	'UCI_ShowWDL',
+	'UCI_Variant'
+]);
+
+const KEYWORDS = new Set(['name', 'type', 'default', 'min', 'max', 'var']);
+
+/**
+ * Parse an `option` line; names, defaults and combo values may contain spaces
+ * Returns null for anything that is not a well-formed option line
+ */
+export function parseOptionLine(line: string): EngineOption | null {
+	const tokens = line.trim().split(/\s+/);
+	if (tokens[0] !== 'option') return null;
+
+	// Group the tokens after each keyword; `var` repeats
+	const fields = new Map<string, string>();
+	const vars: string[] = [];
+	let keyword: string | null = null;
+	let words: string[] = [];
+	const flush = (): void => {
+		if (keyword === 'var') vars.push(words.join(' '));
+		else if (keyword) fields.set(keyword, words.join(' '));
+	};
+
+	for (const token of tokens.slice(1)) {
+		// A keyword inside the name (e.g. "Minimum Thinking Time") only counts once the type is known
+		if (KEYWORDS.has(token) && !(keyword === 'name' && token !== 'type')) {
+			flush();
+			keyword = token;
+			words = [];
+		} else {
+			words.push(token);
+		}
+	}
+	flush();
+
+	const name = fields.get('name');
+	if (!name) return null;
+
+	const defaultValue = fields.get('default') ?? '';
+	switch (fields.get('type')) {
+		case 'check':
+			return { name, type: 'check', default: defaultValue === 'true' };
+		case 'spin': {
+			const [value, min, max] = [defaultValue, fields.get('min'), fields.get('max')].map((v) =>
+				parseInt(v ?? '', 10)
+			);
+			if ([value, min, max].some(isNaN)) return null;
+			return { name, type: 'spin', default: value, min, max };
+		}
+		case 'combo':
+			return { name, type: 'combo', default: defaultValue, vars };
+		case 'string':
+			return { name, type: 'string', default: defaultValue === '<empty>' ? '' : defaultValue };
+		case 'button':
+			return { name, type: 'button' };
+		default:
+			return null;
+	}
+}
+
+/**
+ * Whether an option belongs in the settings panel
+ * Buttons are left out: settings are values applied when a worker starts
+ */
+export function isConfigurable(option: EngineOption): boolean {
+	return option.type !== 'button' && !HIDDEN_OPTIONS.has(option.name);
+}
+
+/**
+ * Check a value against an option, clamping spins into range
+ * Returns null when the value does not fit the option
+ */
+export function validateOptionValue(
+	option: EngineOption,
+	value: EngineOptionValue
+): EngineOptionValue | null {
+	switch (option.type) {
+		case 'check':
+			return typeof value === 'boolean' ? value : null;
+		case 'spin': {
+			const number = typeof value === 'number' ? value : parseInt(String(value), 10);
+			return isNaN(number) ? null : Math.max(option.min, Math.min(option.max, Math.round(number)));
+		}
+		case 'combo':
+			return option.vars.includes(String(value)) ? String(value) : null;
+		case 'string':
+			return String(value);
+		case 'button':
+			return null;
+	}
+}
+
+/**
+ * Engine defaults for every configurable option
+ */
+export function defaultSettings(options: EngineOption[]): EngineSettings {
+	const defaults: EngineSettings = {};
+	for (const option of options) {
+		if (option.type !== 'button' && isConfigurable(option)) defaults[option.name] = option.default;
+	}
+	return defaults;
+}
+
+/**
+ * The saved settings this engine supports, as values ready for `setoption`
+ * Settings for options the engine does not have, or the app sets itself, are skipped
+ */
+export function applicableSettings(
+	options: EngineOption[],
+	settings: EngineSettings
+): [string, EngineOptionValue][] {
+	const applicable: [string, EngineOptionValue][] = [];
+	for (const option of options) {
+		if (!isConfigurable(option) || !(option.name in settings)) continue;
+
+		const value = validateOptionValue(option, settings[option.name]);
+		if (value !== null) applicable.push([option.name, value]);
+	}
+	return applicable;
+}
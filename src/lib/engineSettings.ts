@@ -0,0 +1,94 @@
+/**
+ * Reactive Svelte store for engine settings
+ * Keeps the option schema the engine last reported next to the player's chosen
+ * values, both saved in localStorage; analysis engines apply the values whenever a worker starts
+ */
+
+import { get, writable } from 'svelte/store';
+import { browser } from '$app/environment';
+import {
+	isConfigurable,
+	type EngineOption,
+	type EngineOptionValue,
+	type EngineSettings
+} from './engineOptions';
+
+// Local storage keys
+const SETTINGS_KEY = 'engine-settings';
+const OPTIONS_KEY = 'engine-options';
+
+export interface EngineSettingsState {
+	options: EngineOption[]; // Configurable options the engine reported, empty until a worker has started
+	values: EngineSettings;
+}
+
+function load<T>(key: string, fallback: T): T {
+	if (!browser) return fallback;
+
+	try {
+		const stored = localStorage.getItem(key);
+		if (stored) return JSON.parse(stored);
+	} catch (e) {
+		console.error('Failed to load engine settings:', e);
+	}
+
+	return fallback;
+}
+
+function save(key: string, value: unknown): void {
+	if (!browser) return;
+
+	try {
+		localStorage.setItem(key, JSON.stringify(value));
+	} catch (e) {
+		console.error('Failed to save engine settings:', e);
+	}
+}
+
+function createEngineSettingsStore() {
+	const { subscribe, update } = writable<EngineSettingsState>({
+		options: load<EngineOption[]>(OPTIONS_KEY, []),
+		values: load<EngineSettings>(SETTINGS_KEY, {})
+	});
+
+	return {
+		subscribe,
+
+		/**
+		 * Remember the options a freshly started engine reported
+		 */
+		recordOptions(options: EngineOption[]) {
+			const configurable = options.filter(isConfigurable);
+			save(OPTIONS_KEY, configurable);
+			update((state) => ({ ...state, options: configurable }));
+		},
+
+		/**
+		 * Set one option; the value is applied to engines started from now on
+		 */
+		setValue(name: string, value: EngineOptionValue) {
+			update((state) => {
+				const values = { ...state.values, [name]: value };
+				save(SETTINGS_KEY, values);
+				return { ...state, values };
+			});
+		},
+
+		/**
+		 * Go back to the engine defaults
+		 */
+		reset() {
+			save(SETTINGS_KEY, {});
+			update((state) => ({ ...state, values: {} }));
+		}
+	};
+}
+
+export const engineSettings = createEngineSettingsStore();
+
+/**
+ * Current saved values, for code outside components
+ */
+export function getEngineSettings(): EngineSettings {
+	return get(engineSettings).values;
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import {
+	EvalCache,
+	isImprovement,
+	satisfies,
+	toCacheEntry,
+	toSnapshot,
+	type CachedEvaluation
+} from './evalCache';
+import type { AnalysisSnapshot } from './uciParser';
+
+const FEN = 'r1bqkb1r/pppp1ppp/2n2n2/4p3/2B1P3/5N2/PPPP1PPP/RNBQK2R w KQkq - 4 4';
+const EVALUATION: CachedEvaluation = { score: 0.45, displayScore: '+0.45', isMate: false };
+
+function snapshot(depth: number): AnalysisSnapshot {
+	return {
+		depth,
+		moves: new Map([
+			[
+				'd2d3',
+				{ move: 'd2d3', score: { type: 'cp', value: 45 }, depth, multipv: 1, pv: ['d2d3', 'f8c5'] }
+			],
+			['e1g1', { move: 'e1g1', score: { type: 'cp', value: 30 }, depth, multipv: 2, pv: ['e1g1'] }]
+		]),
+		timestamp: 0,
+		bestMove: 'd2d3',
+		isComplete: true
+	};
+}
+
+describe('evaluation cache', () => {
+	it('keys entries by the FEN without move counters', () => {
+		const entry = toCacheEntry(FEN, snapshot(15), EVALUATION, 4, 1000);
+		expect(entry.fen).toBe('r1bqkb1r/pppp1ppp/2n2n2/4p3/2B1P3/5N2/PPPP1PPP/RNBQK2R w KQkq - 0 1');
+		expect(entry.lastAccess).toBe(1000);
+	});
+
+	it('round-trips a snapshot through plain data', () => {
+		const entry = structuredClone(toCacheEntry(FEN, snapshot(15), EVALUATION, 4));
+		const restored = toSnapshot(entry, 12);
+
+		expect(restored.moves).toEqual(snapshot(15).moves);
+		expect(restored.bestMove).toBe('d2d3');
+		expect(restored.isComplete).toBe(true);
+		expect(toSnapshot(entry, 18).isComplete).toBe(false);
+	});
+
+	it('serves entries deep enough and with enough lines', () => {
+		const entry = toCacheEntry(FEN, snapshot(15), EVALUATION, 4);
+		expect(satisfies(entry, 15, 4)).toBe(true);
+		expect(satisfies(entry, 12, 2)).toBe(true);
+		expect(satisfies(entry, 16, 4)).toBe(false);
+		expect(satisfies(entry, 15, 6)).toBe(false);
+	});
+
+	it('keeps the deepest analysis', () => {
+		const deep = toCacheEntry(FEN, snapshot(18), EVALUATION, 4);
+		const shallow = toCacheEntry(FEN, snapshot(12), EVALUATION, 4);
+		const wider = toCacheEntry(FEN, snapshot(18), EVALUATION, 6);
+
+		expect(isImprovement(null, shallow)).toBe(true);
+		expect(isImprovement(deep, shallow)).toBe(false);
+		expect(isImprovement(shallow, deep)).toBe(true);
+		expect(isImprovement(deep, wider)).toBe(true);
+		expect(isImprovement(deep, deep)).toBe(false);
+	});
+
+	it('does nothing where IndexedDB is unavailable', async () => {
+		const cache = new EvalCache();
+		await cache.put(toCacheEntry(FEN, snapshot(15), EVALUATION, 4));
+
+		expect(await cache.get(FEN)).toBeNull();
+		expect(await cache.count()).toBe(0);
+	});
+});
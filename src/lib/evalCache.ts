@@ -0,0 +1,218 @@
+/**
+ * Evaluation cache
+ * Keeps the deepest analysis seen for each position in IndexedDB, keyed by the
+ * FEN without move counters, so revisited positions show up instantly
+ */
+
+import { normalizeFen } from '$lib/fen';
+import type { AnalysisSnapshot, MoveAnalysisData } from '$lib/uciParser';
+import type { FEN, WDL } from '$lib/types/chess';
+
+const DB_NAME = 'eval-guesser';
+const DB_VERSION = 1;
+const STORE = 'evaluations';
+const ACCESS_INDEX = 'lastAccess';
+
+/** Positions kept before the least recently used ones are evicted */
+export const MAX_CACHED_POSITIONS = 2000;
+
+/** The evaluation shown on the bar, from white's perspective */
+export interface CachedEvaluation {
+	score: number;
+	displayScore: string;
+	isMate: boolean;
+	wdl?: WDL;
+}
+
+/** One position as stored; moves are kept as entries so the record stays plain data */
+export interface EvalCacheEntry {
+	fen: FEN; // Normalized
+	depth: number;
+	lines: number; // MultiPV lines the search ran with
+	moves: [string, MoveAnalysisData][];
+	bestMove?: string;
+	evaluation: CachedEvaluation;
+	lastAccess: number;
+}
+
+/**
+ * Build a cache entry from a finished search
+ */
+export function toCacheEntry(
+	fen: FEN,
+	snapshot: AnalysisSnapshot,
+	evaluation: CachedEvaluation,
+	lines: number,
+	now: number = Date.now()
+): EvalCacheEntry {
+	return {
+		fen: normalizeFen(fen),
+		depth: snapshot.depth,
+		lines,
+		moves: [...snapshot.moves.entries()],
+		bestMove: snapshot.bestMove,
+		evaluation,
+		lastAccess: now
+	};
+}
+
+/**
+ * Turn a cache entry back into a snapshot; it is complete when it reaches the requested depth
+ */
+export function toSnapshot(entry: EvalCacheEntry, requestedDepth: number): AnalysisSnapshot {
+	return {
+		depth: entry.depth,
+		moves: new Map(entry.moves),
+		timestamp: entry.lastAccess,
+		bestMove: entry.bestMove,
+		isComplete: entry.depth >= requestedDepth
+	};
+}
+
+/**
+ * Whether an entry can replace a new search: deep enough and with as many lines
+ */
+export function satisfies(entry: EvalCacheEntry, depth: number, lines: number): boolean {
+	return entry.depth >= depth && entry.lines >= lines;
+}
+
+/**
+ * Whether a new result should overwrite what is stored
+ * Deeper analysis wins; at equal depth, more lines win
+ */
+export function isImprovement(stored: EvalCacheEntry | null, entry: EvalCacheEntry): boolean {
+	if (!stored) return true;
+	if (entry.depth !== stored.depth) return entry.depth > stored.depth;
+	return entry.lines > stored.lines;
+}
+
+// Resolve an IndexedDB request as a promise
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+	return new Promise((resolve, reject) => {
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(request.error);
+	});
+}
+
+export class EvalCache {
+	private database: Promise<IDBDatabase | null> | null = null;
+	private maxPositions: number;
+
+	constructor(maxPositions: number = MAX_CACHED_POSITIONS) {
+		this.maxPositions = maxPositions;
+	}
+
+	/**
+	 * Cached analysis for a position, or null; marks the entry as recently used
+	 */
+	async get(fen: FEN): Promise<EvalCacheEntry | null> {
+		try {
+			const db = await this.open();
+			if (!db) return null;
+
+			const store = db.transaction(STORE, 'readwrite').objectStore(STORE);
+			const entry: EvalCacheEntry | undefined = await promisify(store.get(normalizeFen(fen)));
+			if (!entry) return null;
+
+			entry.lastAccess = Date.now();
+			await promisify(store.put(entry));
+			return entry;
+		} catch (e) {
+			console.error('Failed to read evaluation cache:', e);
+			return null;
+		}
+	}
+
+	/**
+	 * Store an analysis unless a better one is already cached, then evict the least recently used
+	 */
+	async put(entry: EvalCacheEntry): Promise<void> {
+		try {
+			const db = await this.open();
+			if (!db) return;
+
+			const store = db.transaction(STORE, 'readwrite').objectStore(STORE);
+			const stored: EvalCacheEntry | undefined = await promisify(store.get(entry.fen));
+			if (!isImprovement(stored ?? null, entry)) return;
+
+			await promisify(store.put(entry));
+			await this.evict(store);
+		} catch (e) {
+			console.error('Failed to write evaluation cache:', e);
+		}
+	}
+
+	/**
+	 * Number of cached positions
+	 */
+	async count(): Promise<number> {
+		try {
+			const db = await this.open();
+			if (!db) return 0;
+			return await promisify(db.transaction(STORE).objectStore(STORE).count());
+		} catch (e) {
+			console.error('Failed to read evaluation cache:', e);
+			return 0;
+		}
+	}
+
+	/**
+	 * Remove every cached position
+	 */
+	async clear(): Promise<void> {
+		try {
+			const db = await this.open();
+			if (!db) return;
+			await promisify(db.transaction(STORE, 'readwrite').objectStore(STORE).clear());
+		} catch (e) {
+			console.error('Failed to clear evaluation cache:', e);
+		}
+	}
+
+	// Delete the least recently used entries beyond the size limit
+	private async evict(store: IDBObjectStore): Promise<void> {
+		let excess = (await promisify(store.count())) - this.maxPositions;
+		if (excess <= 0) return;
+
+		const cursors = store.index(ACCESS_INDEX).openCursor();
+		await new Promise<void>((resolve, reject) => {
+			cursors.onsuccess = () => {
+				const cursor = cursors.result;
+				if (!cursor || excess <= 0) {
+					resolve();
+					return;
+				}
+				cursor.delete();
+				excess--;
+				cursor.continue();
+			};
+			cursors.onerror = () => reject(cursors.error);
+		});
+	}
+
+	// Open the database once; null where IndexedDB is unavailable (server, private browsing)
+	private open(): Promise<IDBDatabase | null> {
+		if (!this.database) {
+			this.database = new Promise((resolve) => {
+				if (typeof indexedDB === 'undefined') {
+					resolve(null);
+					return;
+				}
+
+				const request = indexedDB.open(DB_NAME, DB_VERSION);
+				request.onupgradeneeded = () => {
+					const store = request.result.createObjectStore(STORE, { keyPath: 'fen' });
+					store.createIndex(ACCESS_INDEX, ACCESS_INDEX);
+				};
+				request.onsuccess = () => resolve(request.result);
+				request.onerror = () => {
+					console.error('Failed to open evaluation cache:', request.error);
+					resolve(null);
+				};
+			});
+		}
+		return this.database;
+	}
+}
+
+export const evalCache = new EvalCache();
@@ -0,0 +1,74 @@
+/**
+ * FEN utilities shared by the client and the server
+ */
+
+import type { FEN } from '$lib/types/chess';
+
+export type GamePhase = 'opening' | 'middlegame' | 'endgame';
+
+// Non-pawn material values used for phase detection
+const PIECE_VALUES: Record<string, number> = { q: 9, r: 5, b: 3, n: 3 };
+
+// Material values including pawns, for material balance
+const MATERIAL_VALUES: Record<string, number> = { ...PIECE_VALUES, p: 1 };
+
+// Both sides' full non-pawn material (2 * (9 + 2*5 + 2*3 + 2*3))
+const FULL_MATERIAL = 62;
+
+// At or below this much non-pawn material the position counts as an endgame
+const ENDGAME_MATERIAL = 26;
+
+/**
+ * Normalize a FEN for deduplication and caching
+ * Keeps placement, side to move, castling and en passant; resets the move counters
+ */
+export function normalizeFen(fen: FEN): FEN {
+	const [placement, turn = 'w', castling = '-', enPassant = '-'] = fen.trim().split(/\s+/);
+	return `${placement} ${turn} ${castling} ${enPassant} 0 1`;
+}
+
+/**
+ * Check whether black is to move in a FEN
+ */
+export function isBlackToMove(fen: FEN): boolean {
+	return fen.split(' ')[1] === 'b';
+}
+
+/**
+ * Total non-pawn material on the board for both sides
+ */
+export function nonPawnMaterial(fen: FEN): number {
+	const placement = fen.split(' ')[0];
+	let total = 0;
+	for (const char of placement.toLowerCase()) {
+		total += PIECE_VALUES[char] ?? 0;
+	}
+	return total;
+}
+
+/**
+ * White's material minus Black's, in pawns
+ */
+export function materialBalance(fen: FEN): number {
+	const placement = fen.split(' ')[0];
+	let balance = 0;
+	for (const char of placement) {
+		const value = MATERIAL_VALUES[char.toLowerCase()] ?? 0;
+		balance += char === char.toUpperCase() ? value : -value;
+	}
+	return balance;
+}
+
+/**
+ * Classify a position as opening, middlegame or endgame
+ * Uses remaining material, plus the move number to tell openings apart
+ */
+export function getGamePhase(fen: FEN): GamePhase {
+	const material = nonPawnMaterial(fen);
+	if (material <= ENDGAME_MATERIAL) return 'endgame';
+
+	const fullMove = parseInt(fen.split(' ')[5] ?? '1', 10) || 1;
+	if (material >= FULL_MATERIAL - 3 && fullMove <= 12) return 'opening';
+
+	return 'middlegame';
+}
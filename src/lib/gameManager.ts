@@ -3,8 +3,32 @@
  * Handles game state, move validation, and computer moves
  */
 
-import { Chess } from 'chess.js';
-import type { FEN, StockfishWorker } from '$lib/types/chess';
+import { Chess, DEFAULT_POSITION } from 'chess.js';
+import { EngineClient, type EngineSearch, type SearchLimits } from '$lib/engineClient';
+import { clampElo, DEFAULT_ELO, strengthPlan } from '$lib/strength';
+import {
+  chooseHumanMove,
+  latestLines,
+  HUMAN_MULTIPV,
+  HUMAN_SEARCH_LIMITS,
+  type HumanMoveChoice
+} from '$lib/humanMove';
+import type { MoveScore, UCIInfo } from '$lib/uciParser';
+import { formatEvalComment, parseEvalComment, pgnDate, pgnTimeControl, type PgnResult } from '$lib/pgn';
+import { replaySavedGame, type SavedGame } from '$lib/savedGame';
+import {
+  computerMoveTime,
+  createClock,
+  flag,
+  pressClock,
+  remainingTime,
+  settleClock,
+  startClock,
+  stopClock,
+  type ClockState,
+  type TimeControl
+} from '$lib/chessClock';
+import type { FEN } from '$lib/types/chess';
 
 export interface GameMove {
   from: string;
@@ -23,56 +47,92 @@ export interface GameState {
   isDraw: boolean;
   turn: 'w' | 'b';
   moveHistory: GameMove[];
+  isTimeout: boolean; // The side to move ran out of time
+  clock: ClockState | null; // Null in untimed games
+}
+
+/** `engine` plays the strength-limited best move; `human` picks among candidates like a person would */
+export type OpponentStyle = 'engine' | 'human';
+
+export interface PgnOptions {
+  evals?: boolean; // Add the recorded evaluations as [%eval] comments
+  date?: Date;
 }
 
 export class GameManager {
   private chess: Chess;
-  private worker: StockfishWorker | null = null;
+  private startFen: FEN; // Where the move history begins
+  private evaluations = new Map<FEN, MoveScore>(); // White's perspective, by the FEN after each move
+  private engine: EngineClient | null = null;
+  private search: EngineSearch | null = null; // Computer's search in progress
   private playerColor: 'white' | 'black';
-  private computerLevel: number;
+  private computerElo: number;
+  private limits: SearchLimits; // Per-move search limit for the computer's strength
+  private opponent: OpponentStyle;
+  private humanMoveLog: HumanMoveChoice[] = []; // Every human-style choice, for tuning the model
   private moveCallback?: (move: GameMove) => void;
   private stateChangeCallback?: (state: GameState) => void;
   private isThinking: boolean = false;
+  private timeControl: TimeControl | null;
+  private clock: ClockState | null;
+  private flagTimer: ReturnType<typeof setTimeout> | null = null; // Fires when the running side runs out
 
   constructor(
     initialFen: FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1',
     playerColor: 'white' | 'black' = 'white',
-    computerLevel: number = 10
+    computerElo: number = DEFAULT_ELO,
+    opponent: OpponentStyle = 'engine',
+    timeControl: TimeControl | null = null
   ) {
     this.chess = new Chess(initialFen);
+    this.startFen = this.chess.fen();
     this.playerColor = playerColor;
-    this.computerLevel = Math.max(1, Math.min(20, computerLevel)); // Clamp between 1-20
+    this.computerElo = clampElo(computerElo);
+    this.opponent = opponent;
+    this.limits = opponent === 'human' ? HUMAN_SEARCH_LIMITS : strengthPlan(this.computerElo, []).limits;
+    this.timeControl = timeControl;
+    this.clock = timeControl ? createClock(timeControl) : null;
   }
 
   /**
-   * Initialize Stockfish worker
+   * Initialize Stockfish and make the first move if it is the computer's turn
    */
-  initEngine(workerPath: string = '/stockfish.js'): void {
-    if (typeof Worker !== 'undefined') {
-      console.log('Initializing Stockfish worker...');
-      this.worker = new Worker(workerPath) as StockfishWorker;
-      this.worker.onmessage = this.handleEngineMessage.bind(this);
-
-      // Initialize engine
-      this.worker.postMessage('uci');
-      this.worker.postMessage('isready');
-
-      // Set skill level (0-20, where 0 is weakest)
-      this.worker.postMessage(`setoption name Skill Level value ${this.computerLevel}`);
-
-      // Set other options for faster play at lower levels
-      if (this.computerLevel < 10) {
-        // Limit search depth for weaker play
-        this.worker.postMessage(`setoption name Depth value ${Math.max(1, this.computerLevel)}`);
+  async initEngine(workerPath: string = '/stockfish.js'): Promise<void> {
+    if (typeof Worker === 'undefined') return;
+
+    console.log('Initializing Stockfish worker...');
+    const engine = new EngineClient({ workerPath });
+    this.engine = engine;
+    await engine.init();
+
+    if (this.opponent === 'human') {
+      // Full-strength MultiPV search; the choice model does the weakening
+      if (engine.getOptions().some((option) => option.name === 'UCI_LimitStrength')) {
+        await engine.setOption('UCI_LimitStrength', false);
+      }
+      await engine.setOption('Skill Level', 20);
+      await engine.setOption('MultiPV', HUMAN_MULTIPV);
+      console.log(`Human-style opponent at ${this.computerElo} Elo`);
+    } else {
+      // UCI_Elo when the engine supports the target, Skill Level otherwise
+      const plan = strengthPlan(this.computerElo, engine.getOptions());
+      for (const [name, value] of plan.options) {
+        await engine.setOption(name, value);
       }
+      this.limits = plan.limits;
+      console.log(`Computer strength ${plan.elo} Elo (${plan.limited ? 'UCI_Elo' : 'Skill Level'})`);
+    }
 
-      // Check if it's computer's turn after a short delay to ensure engine is ready
-      setTimeout(() => {
-        if (this.shouldComputerMove()) {
-          console.log('Computer should move on init');
-          this.makeComputerMove();
-        }
-      }, 500);
+    // Destroyed while starting up
+    if (this.engine !== engine) return;
+
+    // The clock starts once the computer is ready to play
+    this.startClockFor(this.chess.turn());
+    this.stateChangeCallback?.(this.getState());
+
+    if (this.shouldComputerMove()) {
+      console.log('Computer should move on init');
+      this.makeComputerMove();
     }
   }
 
@@ -95,10 +155,11 @@ export class GameManager {
    */
   getState(): GameState {
     const history = this.chess.history({ verbose: true });
+    const isTimeout = this.clock?.flagged != null;
 
     return {
       fen: this.chess.fen(),
-      isGameOver: this.chess.isGameOver(),
+      isGameOver: this.chess.isGameOver() || isTimeout,
       isCheck: this.chess.isCheck(),
       isCheckmate: this.chess.isCheckmate(),
       isStalemate: this.chess.isStalemate(),
@@ -110,7 +171,9 @@ export class GameManager {
         promotion: m.promotion,
         san: m.san,
         fen: m.after
-      }))
+      })),
+      isTimeout,
+      clock: this.clock
     };
   }
 
@@ -121,15 +184,15 @@ export class GameManager {
     const turn = this.chess.turn();
     const isComputerTurn = (this.playerColor === 'white' && turn === 'b') ||
                            (this.playerColor === 'black' && turn === 'w');
-    return isComputerTurn && !this.chess.isGameOver() && !this.isThinking;
+    return isComputerTurn && !this.chess.isGameOver() && !this.clock?.flagged && !this.isThinking;
   }
 
   /**
    * Make a player move
    */
   makePlayerMove(move: GameMove): boolean {
-    if (this.isThinking || this.shouldComputerMove()) {
-      return false; // Not player's turn or computer is thinking
+    if (this.isThinking || this.shouldComputerMove() || this.isOutOfTime()) {
+      return false; // Not player's turn, computer is thinking, or out of time
     }
 
     try {
@@ -140,6 +203,13 @@ export class GameManager {
       });
 
       if (result) {
+        this.switchClock();
+
+        // Check if computer should move
+        if (this.shouldComputerMove()) {
+          this.scheduleComputerMove();
+        }
+
         const moveWithSan: GameMove = {
           ...move,
           san: result.san,
@@ -149,11 +219,6 @@ export class GameManager {
         this.moveCallback?.(moveWithSan);
         this.stateChangeCallback?.(this.getState());
 
-        // Check if computer should move
-        if (this.shouldComputerMove()) {
-          setTimeout(() => this.makeComputerMove(), 500); // Small delay for better UX
-        }
-
         return true;
       }
     } catch (e) {
@@ -163,97 +228,314 @@ export class GameManager {
     return false;
   }
 
+  /**
+   * Let the computer reply after a short pause, for better UX
+   * Its clock waits for the pause to end, so the pause is not charged to it
+   */
+  private scheduleComputerMove(): void {
+    if (this.clock?.running) {
+      this.clock = stopClock(this.clock);
+      this.scheduleFlag();
+    }
+
+    setTimeout(() => {
+      // Reset, undone or closed during the pause
+      if (!this.engine || !this.shouldComputerMove() || this.clock?.running) return;
+
+      this.startClockFor(this.chess.turn());
+      this.stateChangeCallback?.(this.getState());
+      this.makeComputerMove();
+    }, 500);
+  }
+
   /**
    * Request computer move from Stockfish
    */
-  private makeComputerMove(): void {
-    if (!this.worker || this.isThinking) {
-      console.log('Cannot make computer move:', { worker: !!this.worker, isThinking: this.isThinking });
+  private async makeComputerMove(): Promise<void> {
+    if (!this.engine || this.isThinking) {
+      console.log('Cannot make computer move:', { engine: !!this.engine, isThinking: this.isThinking });
       return;
     }
 
     console.log('Making computer move...');
     this.isThinking = true;
     const fen = this.chess.fen();
+    const search = this.engine.analyze(fen, this.searchLimits());
+    this.search = search;
 
-    // Send position to engine
-    this.worker.postMessage(`position fen ${fen}`);
-
-    // Request best move with time/depth based on level
-    if (this.computerLevel >= 15) {
-      // Strong play: use more time
-      this.worker.postMessage('go movetime 2000');
-    } else if (this.computerLevel >= 10) {
-      // Medium play
-      this.worker.postMessage('go movetime 1000');
-    } else if (this.computerLevel >= 5) {
-      // Weak play
-      this.worker.postMessage('go movetime 500');
-    } else {
-      // Very weak play
-      this.worker.postMessage(`go depth ${this.computerLevel}`);
+    // The human-style opponent chooses among all lines, so it needs the search output
+    const infos: UCIInfo[] = [];
+    if (this.opponent === 'human') {
+      for await (const info of search) infos.push(info);
     }
+
+    const result = await search.result;
+    if (this.search === search) this.search = null;
+
+    // Cancelled by a reset or when the game was closed
+    if (!result) return;
+
+    console.log('Got best move:', result.move);
+    const move =
+      this.opponent === 'human' && result.move
+        ? this.pickHumanMove(fen, infos, result.move)
+        : result.move;
+    this.applyComputerMove(move);
+  }
+
+  /**
+   * Search limits for the computer's next move
+   * With a clock, the time comes from its remaining time instead of the fixed movetime;
+   * depth limits for the lowest strengths still apply.
+   */
+  private searchLimits(): SearchLimits {
+    if (!this.clock) return this.limits;
+
+    const remaining = remainingTime(this.clock, this.chess.turn());
+    return { ...this.limits, movetime: computerMoveTime(remaining, this.clock.control.increment) };
+  }
+
+  /**
+   * Choose a move from the search lines with the human model, and log the choice
+   * Falls back to the engine's best move when no line is usable
+   */
+  private pickHumanMove(fen: FEN, infos: UCIInfo[], bestMove: string): string {
+    const lines = latestLines(infos);
+    // Where the player's last move captured, for spotting recaptures
+    const lastMove = this.chess.history({ verbose: true }).at(-1);
+    const captureSquare = lastMove?.captured ? lastMove.to : null;
+
+    const choice = chooseHumanMove(fen, lines, this.computerElo, captureSquare);
+    if (!choice) return bestMove;
+
+    this.humanMoveLog.push(choice);
+    console.log('Human move choice:', choice);
+    return choice.chosen;
   }
 
   /**
-   * Handle messages from Stockfish
+   * Every choice the human-style opponent has made this session
    */
-  private handleEngineMessage(event: MessageEvent): void {
-    const message = event.data;
+  getHumanMoveLog(): HumanMoveChoice[] {
+    return [...this.humanMoveLog];
+  }
 
-    // Log all messages during development
-    if (message && !message.includes('info depth')) {
-      console.log('Stockfish:', message);
+  /**
+   * Play the engine's best move on the board
+   */
+  private applyComputerMove(uciMove: string | null): void {
+    if (!uciMove) {
+      console.log('No valid move in bestmove message');
+      this.isThinking = false;
+      return;
     }
 
-    if (typeof message === 'string') {
-      // Handle readyok to trigger computer move if needed
-      if (message === 'readyok' && this.shouldComputerMove() && !this.isThinking) {
-        console.log('Engine ready, checking for computer move');
-        this.makeComputerMove();
+    // The search outlived the clock
+    if (this.isOutOfTime()) {
+      this.isThinking = false;
+      return;
+    }
+
+    const from = uciMove.substring(0, 2);
+    const to = uciMove.substring(2, 4);
+    const promotion = uciMove.length > 4 ? uciMove[4] : undefined;
+
+    try {
+      const result = this.chess.move({
+        from,
+        to,
+        promotion
+      });
+
+      if (result) {
+        this.switchClock();
+        const move: GameMove = {
+          from,
+          to,
+          promotion,
+          san: result.san,
+          fen: this.chess.fen()
+        };
+
+        console.log('Computer moved:', move.san);
+        this.isThinking = false;
+        this.moveCallback?.(move);
+        this.stateChangeCallback?.(this.getState());
       }
+    } catch (e) {
+      console.error('Invalid computer move:', e);
+      this.isThinking = false;
+    }
+  }
 
-      // Handle bestmove
-      if (message.startsWith('bestmove')) {
-        console.log('Got best move:', message);
-        const match = message.match(/bestmove\s+([a-h][1-8][a-h][1-8][qrbn]?)/);
-
-        if (match) {
-          const uciMove = match[1];
-          const from = uciMove.substring(0, 2);
-          const to = uciMove.substring(2, 4);
-          const promotion = uciMove.length > 4 ? uciMove[4] : undefined;
-
-          try {
-            const result = this.chess.move({
-              from,
-              to,
-              promotion
-            });
-
-            if (result) {
-              const move: GameMove = {
-                from,
-                to,
-                promotion,
-                san: result.san,
-                fen: this.chess.fen()
-              };
-
-              console.log('Computer moved:', move.san);
-              this.isThinking = false;
-              this.moveCallback?.(move);
-              this.stateChangeCallback?.(this.getState());
-            }
-          } catch (e) {
-            console.error('Invalid computer move:', e);
-            this.isThinking = false;
-          }
-        } else {
-          console.log('No valid move in bestmove message');
-          this.isThinking = false;
-        }
+  /**
+   * Charge the side that just moved and start the other side's clock; stop it when the game is over
+   */
+  private switchClock(): void {
+    if (!this.clock) return;
+
+    const clock = pressClock(this.clock);
+    this.clock = this.chess.isGameOver() && !clock.flagged ? stopClock(clock) : clock;
+    this.scheduleFlag();
+  }
+
+  /**
+   * Whether the game was lost on time, flagging the side to move if its time has just run out
+   */
+  private isOutOfTime(): boolean {
+    if (!this.clock) return false;
+
+    const color = this.clock.running;
+    if (color && remainingTime(this.clock, color) <= 0) this.flagSide(color);
+    return this.clock.flagged !== null;
+  }
+
+  private flagSide(color: 'w' | 'b'): void {
+    if (!this.clock) return;
+
+    console.log(`${color === 'w' ? 'White' : 'Black'} ran out of time`);
+    this.clock = flag(this.clock, color);
+    this.scheduleFlag();
+    this.search?.cancel();
+    this.isThinking = false;
+    this.stateChangeCallback?.(this.getState());
+  }
+
+  private startClockFor(color: 'w' | 'b'): void {
+    if (!this.clock || this.chess.isGameOver()) return;
+    this.clock = startClock(this.clock, color);
+    this.scheduleFlag();
+  }
+
+  // Flag the running side when its time runs out
+  private scheduleFlag(): void {
+    if (this.flagTimer) clearTimeout(this.flagTimer);
+    this.flagTimer = null;
+
+    const color = this.clock?.running;
+    if (!this.clock || !color) return;
+
+    this.flagTimer = setTimeout(() => {
+      this.flagTimer = null;
+      if (!this.clock || this.clock.running !== color) return;
+
+      // Timers can fire early; check again
+      if (remainingTime(this.clock, color) > 0) {
+        this.scheduleFlag();
+        return;
       }
+
+      this.flagSide(color);
+    }, remainingTime(this.clock, color));
+  }
+
+  /**
+   * Remember the evaluation of a position reached in this game, for PGN export
+   */
+  recordEvaluation(fen: FEN, score: MoveScore): void {
+    this.evaluations.set(fen, score);
+  }
+
+  /**
+   * Result in PGN notation; a side that ran out of time loses
+   */
+  getResult(): PgnResult {
+    if (this.clock?.flagged) return this.clock.flagged === 'w' ? '0-1' : '1-0';
+    if (this.chess.isCheckmate()) return this.chess.turn() === 'w' ? '0-1' : '1-0';
+    if (this.chess.isDraw() || this.chess.isStalemate()) return '1/2-1/2';
+    return '*';
+  }
+
+  /**
+   * The game as PGN with the Seven Tag Roster, the time control, and SetUp/FEN for a custom start
+   */
+  toPgn({ evals = true, date = new Date() }: PgnOptions = {}): string {
+    const game = new Chess(this.startFen);
+    const computer = `Stockfish (${this.computerElo} Elo)`;
+    const result = this.getResult();
+
+    game.setHeader('Event', 'Play vs Computer');
+    game.setHeader('Date', pgnDate(date));
+    game.setHeader('Round', '-');
+    game.setHeader('White', this.playerColor === 'white' ? 'Player' : computer);
+    game.setHeader('Black', this.playerColor === 'black' ? 'Player' : computer);
+    game.setHeader('Result', result);
+    game.setHeader(this.playerColor === 'white' ? 'BlackElo' : 'WhiteElo', String(this.computerElo));
+    game.setHeader('TimeControl', pgnTimeControl(this.timeControl));
+    if (this.clock?.flagged) game.setHeader('Termination', 'time forfeit');
+
+    for (const move of this.chess.history({ verbose: true })) {
+      game.move(move.san);
+      const score = evals ? this.evaluations.get(move.after) : undefined;
+      // No evaluation once the game is over on the board
+      if (score && !game.isGameOver()) game.setComment(formatEvalComment(score));
+    }
+
+    // chess.js leaves the movetext open while the position itself is not decided
+    return game.pgn().replace(/\*$/, result);
+  }
+
+  /**
+   * Replace the game with one loaded from PGN, keeping its [%eval] comments; play continues
+   * from its final position. Throws when the PGN cannot be read.
+   */
+  loadPgn(pgn: string): void {
+    const game = new Chess();
+    game.loadPgn(pgn);
+
+    this.search?.cancel();
+    this.isThinking = false;
+    this.chess = game;
+    this.startFen = game.getHeaders().FEN ?? DEFAULT_POSITION;
+    this.evaluations.clear();
+    for (const { fen, comment } of game.getComments()) {
+      const score = parseEvalComment(comment);
+      if (score) this.evaluations.set(fen, score);
+    }
+
+    if (this.timeControl) this.clock = createClock(this.timeControl);
+    this.stateChangeCallback?.(this.getState());
+  }
+
+  /**
+   * The game as a record that can be stored and resumed; a running clock is saved running
+   */
+  toSavedGame(now: number = Date.now()): SavedGame {
+    return {
+      startFen: this.startFen,
+      moves: this.chess.history({ verbose: true }).map((move) => move.from + move.to + (move.promotion ?? '')),
+      playerColor: this.playerColor,
+      computerElo: this.computerElo,
+      opponent: this.opponent,
+      clock: this.clock,
+      savedAt: now
+    };
+  }
+
+  /**
+   * Continue a saved game: its moves and remaining times replace the current game.
+   * A clock saved running charges the side to move for the time since, including time away,
+   * and flags it when that used up its time. The clock restarts, and the computer moves if
+   * it is its turn, as soon as the engine is ready.
+   * Throws when the record does not describe a legal game.
+   */
+  restore(saved: SavedGame, now: number = Date.now()): void {
+    const chess = replaySavedGame(saved);
+    if (!chess) throw new Error('Saved game is not a legal game');
+
+    this.search?.cancel();
+    this.isThinking = false;
+    this.chess = chess;
+    this.startFen = saved.startFen;
+    this.evaluations.clear();
+    this.timeControl = saved.clock?.control ?? null;
+    this.clock = saved.clock ? settleClock(saved.clock, now) : null;
+    this.stateChangeCallback?.(this.getState());
+
+    // Restored into a running game: pick up straight away instead of waiting for initEngine
+    if (this.engine) {
+      this.startClockFor(this.chess.turn());
+      if (this.shouldComputerMove()) this.makeComputerMove();
     }
   }
 
@@ -271,7 +553,14 @@ export class GameManager {
   reset(fen?: FEN): void {
     const resetFen = fen || 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
     this.chess = new Chess(resetFen);
+    this.startFen = this.chess.fen();
+    this.evaluations.clear();
+    this.search?.cancel();
     this.isThinking = false;
+    if (this.timeControl) {
+      this.clock = createClock(this.timeControl);
+      this.startClockFor(this.chess.turn());
+    }
     this.stateChangeCallback?.(this.getState());
 
     // Check if computer should make first move
@@ -294,6 +583,9 @@ export class GameManager {
       this.chess.undo();
     }
 
+    // Times are kept; the clock follows the side now to move
+    if (this.clock && !this.clock.flagged) this.startClockFor(this.chess.turn());
+
     this.stateChangeCallback?.(this.getState());
   }
 
@@ -301,9 +593,13 @@ export class GameManager {
    * Clean up
    */
   destroy(): void {
-    if (this.worker) {
-      this.worker.terminate();
-      this.worker = null;
+    if (this.flagTimer) {
+      clearTimeout(this.flagTimer);
+      this.flagTimer = null;
+    }
+    if (this.engine) {
+      this.engine.terminate();
+      this.engine = null;
     }
   }
 
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import {
+	DEFAULT_RATING,
+	MAX_DEVIATION,
+	MIN_DEVIATION,
+	expectedOutcome,
+	rateGame,
+	updateRating
+} from './glicko';
+
+describe('updateRating', () => {
+	it('reproduces the worked example from the Glicko-2 paper', () => {
+		const updated = updateRating({ rating: 1500, deviation: 200, volatility: 0.06 }, [
+			{ opponent: { rating: 1400, deviation: 30, volatility: 0.06 }, score: 1 },
+			{ opponent: { rating: 1550, deviation: 100, volatility: 0.06 }, score: 0 },
+			{ opponent: { rating: 1700, deviation: 300, volatility: 0.06 }, score: 0 }
+		]);
+
+		expect(updated.rating).toBeCloseTo(1464.06, 1);
+		expect(updated.deviation).toBeCloseTo(151.52, 1);
+		expect(updated.volatility).toBeCloseTo(0.05999, 4);
+	});
+
+	it('only grows the deviation without results', () => {
+		const player = { rating: 1700, deviation: 100, volatility: 0.06 };
+		const updated = updateRating(player, []);
+		expect(updated.rating).toBe(1700);
+		expect(updated.deviation).toBeGreaterThan(100);
+	});
+
+	it('keeps the deviation within bounds', () => {
+		let player = { ...DEFAULT_RATING };
+		for (let i = 0; i < 200; i++) {
+			player = updateRating(player, [{ opponent: DEFAULT_RATING, score: i % 2 }]);
+		}
+		expect(player.deviation).toBeGreaterThanOrEqual(MIN_DEVIATION);
+		expect(updateRating(DEFAULT_RATING, []).deviation).toBeLessThanOrEqual(MAX_DEVIATION);
+	});
+});
+
+describe('rateGame', () => {
+	it('moves the player and the position in opposite directions', () => {
+		const { player, position } = rateGame(DEFAULT_RATING, DEFAULT_RATING, 1);
+		expect(player.rating).toBeGreaterThan(1500);
+		expect(position.rating).toBeLessThan(1500);
+	});
+
+	it('changes ratings less for expected results', () => {
+		const strong = { rating: 2000, deviation: 80, volatility: 0.06 };
+		const easy = { rating: 1200, deviation: 80, volatility: 0.06 };
+		const hard = { rating: 2400, deviation: 80, volatility: 0.06 };
+
+		const expectedWin = rateGame(strong, easy, 1).player.rating - strong.rating;
+		const upsetWin = rateGame(strong, hard, 1).player.rating - strong.rating;
+		expect(upsetWin).toBeGreaterThan(expectedWin);
+	});
+});
+
+describe('expectedOutcome', () => {
+	it('favours the higher rated side', () => {
+		const strong = { rating: 1800, deviation: 60, volatility: 0.06 };
+		const weak = { rating: 1400, deviation: 60, volatility: 0.06 };
+		expect(expectedOutcome(strong, weak)).toBeGreaterThan(0.5);
+		expect(expectedOutcome(weak, strong)).toBeLessThan(0.5);
+	});
+});
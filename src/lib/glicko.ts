@@ -0,0 +1,155 @@
+/**
+ * Glicko-2 rating system
+ * Used for both players and positions in the guessing modes: every guess is
+ * a game between the player and the position, like puzzle ratings
+ */
+
+export interface GlickoRating {
+	rating: number;
+	deviation: number;
+	volatility: number;
+}
+
+export interface GlickoResult {
+	opponent: GlickoRating;
+	/** 1 for a win, 0 for a loss, 0.5 for a draw */
+	score: number;
+}
+
+export const DEFAULT_RATING: GlickoRating = {
+	rating: 1500,
+	deviation: 350,
+	volatility: 0.06
+};
+
+/** System constant limiting how fast volatility changes */
+export const DEFAULT_TAU = 0.5;
+
+// Keep deviations in a sensible range so ratings never freeze or explode
+export const MIN_DEVIATION = 45;
+export const MAX_DEVIATION = 350;
+
+// Conversion factor between the Glicko and Glicko-2 scales
+const SCALE = 173.7178;
+const CONVERGENCE = 0.000001;
+
+function g(phi: number): number {
+	return 1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI));
+}
+
+function expectedScore(mu: number, muOpponent: number, phiOpponent: number): number {
+	return 1 / (1 + Math.exp(-g(phiOpponent) * (mu - muOpponent)));
+}
+
+/**
+ * Expected score (0-1) of a player against an opponent
+ */
+export function expectedOutcome(player: GlickoRating, opponent: GlickoRating): number {
+	return expectedScore(
+		(player.rating - 1500) / SCALE,
+		(opponent.rating - 1500) / SCALE,
+		opponent.deviation / SCALE
+	);
+}
+
+/**
+ * Compute the new volatility (step 5 of the Glicko-2 paper, Illinois algorithm)
+ */
+function newVolatility(phi: number, sigma: number, v: number, delta: number, tau: number): number {
+	const a = Math.log(sigma * sigma);
+	const f = (x: number): number => {
+		const ex = Math.exp(x);
+		const denominator = phi * phi + v + ex;
+		return (
+			(ex * (delta * delta - phi * phi - v - ex)) / (2 * denominator * denominator) -
+			(x - a) / (tau * tau)
+		);
+	};
+
+	let A = a;
+	let B: number;
+	if (delta * delta > phi * phi + v) {
+		B = Math.log(delta * delta - phi * phi - v);
+	} else {
+		let k = 1;
+		while (f(a - k * tau) < 0) k++;
+		B = a - k * tau;
+	}
+
+	let fA = f(A);
+	let fB = f(B);
+	while (Math.abs(B - A) > CONVERGENCE) {
+		const C = A + ((A - B) * fA) / (fB - fA);
+		const fC = f(C);
+		if (fC * fB <= 0) {
+			A = B;
+			fA = fB;
+		} else {
+			fA = fA / 2;
+		}
+		B = C;
+		fB = fC;
+	}
+
+	return Math.exp(A / 2);
+}
+
+/**
+ * Update a rating after a rating period
+ * With no results only the deviation grows, reflecting the time without games
+ */
+export function updateRating(
+	player: GlickoRating,
+	results: GlickoResult[],
+	tau: number = DEFAULT_TAU
+): GlickoRating {
+	const mu = (player.rating - 1500) / SCALE;
+	const phi = player.deviation / SCALE;
+	const sigma = player.volatility;
+
+	if (results.length === 0) {
+		const deviation = Math.sqrt(phi * phi + sigma * sigma) * SCALE;
+		return { ...player, deviation: Math.min(MAX_DEVIATION, deviation) };
+	}
+
+	let vInverse = 0;
+	let deltaSum = 0;
+	for (const { opponent, score } of results) {
+		const muOpponent = (opponent.rating - 1500) / SCALE;
+		const phiOpponent = opponent.deviation / SCALE;
+		const gOpponent = g(phiOpponent);
+		const expected = expectedScore(mu, muOpponent, phiOpponent);
+
+		vInverse += gOpponent * gOpponent * expected * (1 - expected);
+		deltaSum += gOpponent * (score - expected);
+	}
+
+	const v = 1 / vInverse;
+	const delta = v * deltaSum;
+
+	const volatility = newVolatility(phi, sigma, v, delta, tau);
+	const phiStar = Math.sqrt(phi * phi + volatility * volatility);
+	const phiNew = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / v);
+	const muNew = mu + phiNew * phiNew * deltaSum;
+
+	return {
+		rating: muNew * SCALE + 1500,
+		deviation: Math.max(MIN_DEVIATION, Math.min(MAX_DEVIATION, phiNew * SCALE)),
+		volatility
+	};
+}
+
+/**
+ * Update both sides after a single game between a player and a position
+ */
+export function rateGame(
+	player: GlickoRating,
+	position: GlickoRating,
+	playerScore: number,
+	tau: number = DEFAULT_TAU
+): { player: GlickoRating; position: GlickoRating } {
+	return {
+		player: updateRating(player, [{ opponent: position, score: playerScore }], tau),
+		position: updateRating(position, [{ opponent: player, score: 1 - playerScore }], tau)
+	};
+}
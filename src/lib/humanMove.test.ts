@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { chooseHumanMove, latestLines, temperatureForElo } from './humanMove';
+import { parseInfoLine, type UCIInfo } from './uciParser';
+import type { MoveAnalysisData } from './uciParser';
+
+// 1. e4 e5 2. Nf3 Nc6 3. Bb5 a6 4. Bxc6: Black to recapture
+const RECAPTURE_FEN = 'r1bqkbnr/1ppp1ppp/p1B5/4p3/4P3/5N2/PPPP1PPP/RNBQK2R b KQkq - 0 4';
+// Starting position, White to move
+const START_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+
+function line(move: string, cp: number, multipv: number): MoveAnalysisData {
+	return { move, score: { type: 'cp', value: cp }, depth: 12, multipv, pv: [move] };
+}
+
+const OPENING = [
+	line('e2e4', 30, 1),
+	line('d2d4', 25, 2),
+	line('g1f3', 20, 3),
+	line('g2g4', -120, 4)
+];
+
+describe('chooseHumanMove', () => {
+	it('spreads choices wider at lower Elo', () => {
+		expect(temperatureForElo(800)).toBeGreaterThan(temperatureForElo(2800));
+
+		const weak = chooseHumanMove(START_FEN, OPENING, 800, null, () => 0)!;
+		const strong = chooseHumanMove(START_FEN, OPENING, 2800, null, () => 0)!;
+		expect(weak.candidates[0].probability).toBeLessThan(strong.candidates[0].probability);
+	});
+
+	it('gives probabilities that follow eval loss and sum to one', () => {
+		const choice = chooseHumanMove(START_FEN, OPENING, 1500, null, () => 0)!;
+		const probabilities = choice.candidates.map((candidate) => candidate.probability);
+
+		expect(probabilities.reduce((sum, p) => sum + p, 0)).toBeCloseTo(1);
+		expect([...probabilities].sort((a, b) => b - a)).toEqual(probabilities);
+		expect(choice.complexity).toBe(0);
+	});
+
+	it('rarely hangs material outright', () => {
+		const lines = [line('e2e4', 30, 1), line('d2d4', 25, 2), line('f2f3', -500, 3)];
+		const choice = chooseHumanMove(START_FEN, lines, 800, null, () => 0)!;
+		const hanging = choice.candidates[2];
+
+		expect(hanging.isBlunder).toBe(true);
+		expect(hanging.probability).toBeLessThan(0.01);
+	});
+
+	it('prefers the natural recapture', () => {
+		// The recapture dxc6 and the slightly better bxc6 both take back the bishop; Nf6 does not
+		const lines = [line('b7c6', -40, 1), line('d7c6', -45, 2), line('g8f6', -300, 3)];
+		const withBonus = chooseHumanMove(RECAPTURE_FEN, lines, 1200, 'c6', () => 0)!;
+		const without = chooseHumanMove(RECAPTURE_FEN, lines, 1200, null, () => 0)!;
+
+		expect(withBonus.candidates[0].isRecapture).toBe(true);
+		expect(withBonus.candidates[2].isRecapture).toBe(false);
+		expect(withBonus.candidates[2].probability).toBeLessThan(without.candidates[2].probability);
+	});
+
+	it('picks with the roll and records the choice', () => {
+		const first = chooseHumanMove(START_FEN, OPENING, 1500, null, () => 0)!;
+		const last = chooseHumanMove(START_FEN, OPENING, 1500, null, () => 0.999999)!;
+
+		expect(first.chosen).toBe('e2e4');
+		expect(last.chosen).toBe('g2g4');
+		expect(first).toMatchObject({ fen: START_FEN, elo: 1500, roll: 0 });
+		expect(first.candidates.map((candidate) => candidate.san)).toEqual(['e4', 'd4', 'Nf3', 'g4']);
+	});
+
+	it('skips lines that are not legal in the position', () => {
+		const lines = [line('e7e5', 30, 1), line('d2d4', 25, 2)];
+		const choice = chooseHumanMove(START_FEN, lines, 1500, null, () => 0)!;
+
+		expect(choice.candidates.map((candidate) => candidate.move)).toEqual(['d2d4']);
+		expect(chooseHumanMove(START_FEN, [line('e7e5', 30, 1)], 1500)).toBeNull();
+	});
+
+	it('returns null without lines', () => {
+		expect(chooseHumanMove(START_FEN, [], 1500)).toBeNull();
+	});
+});
+
+describe('latestLines', () => {
+	// Cut off by the time limit after reaching only the first two ranks of depth 13
+	const CUT_OFF = [
+		'info depth 12 multipv 1 score cp 30 pv e2e4 e7e5',
+		'info depth 12 multipv 2 score cp 25 pv d2d4 d7d5',
+		'info depth 12 multipv 3 score cp 20 pv g1f3 g8f6',
+		'info depth 12 multipv 4 score cp 15 pv c2c4 e7e5',
+		'info depth 13 multipv 1 score cp 35 lowerbound pv d2d4',
+		'info depth 13 multipv 1 score cp 32 pv d2d4 d7d5',
+		'info depth 13 multipv 2 score cp 28 pv e2e4 e7e5'
+	].map((text) => parseInfoLine(text) as UCIInfo);
+
+	it('keeps earlier depths for ranks the last depth did not reach', () => {
+		const lines = latestLines(CUT_OFF);
+
+		expect(lines.map((l) => [l.move, l.depth, l.score.value])).toEqual([
+			['d2d4', 13, 32],
+			['e2e4', 13, 28],
+			['g1f3', 12, 20],
+			['c2c4', 12, 15]
+		]);
+	});
+
+	it('keeps one line per move when ranks shift', () => {
+		const shifted = [
+			...CUT_OFF.slice(0, 4),
+			parseInfoLine('info depth 13 multipv 1 score cp 33 pv g1f3 d7d5')!
+		];
+		const lines = latestLines(shifted);
+
+		expect(lines.map((l) => [l.move, l.depth])).toEqual([
+			['g1f3', 13],
+			['d2d4', 12],
+			['c2c4', 12]
+		]);
+	});
+});
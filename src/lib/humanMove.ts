@@ -0,0 +1,164 @@
+/**
+ * Human-like move selection
+ * Picks among the engine's MultiPV candidates with a probability model instead
+ * of always playing the best move: small losses are common, large ones rare,
+ * natural recaptures are favoured, and weaker or busier positions widen the spread
+ */
+
+import { Chess } from 'chess.js';
+import { MIN_ELO, MAX_ELO, clampElo } from '$lib/strength';
+import { evaluationToWinChance, toEvaluationScore } from '$lib/scoring';
+import type { MoveAnalysisData, UCIInfo } from '$lib/uciParser';
+import type { SearchLimits } from '$lib/engineClient';
+import type { FEN } from '$lib/types/chess';
+
+/** Lines searched for the human opponent to choose from, at full strength */
+export const HUMAN_MULTIPV = 6;
+export const HUMAN_SEARCH_LIMITS: SearchLimits = { movetime: 1000 };
+
+// Softmax temperature on the win-chance scale at the weakest and strongest Elo
+const WEAKEST_TEMPERATURE = 0.12;
+const STRONGEST_TEMPERATURE = 0.01;
+
+// Loss of win chance that counts as hanging material outright, and how much rarer it is made
+const BLUNDER_LOSS = 0.25;
+const BLUNDER_PENALTY = 0.1;
+
+// Recapturing on the square of the opponent's last capture is the natural reply
+const RECAPTURE_BONUS = 3;
+
+/** One candidate with the features the model uses */
+export interface HumanCandidate {
+	move: string; // UCI
+	san: string;
+	multipv: number;
+	winChance: number; // Side to move's expected score (0-1)
+	loss: number; // Win chance lost against the best candidate
+	isRecapture: boolean;
+	isTactical: boolean; // Capture or check
+	isBlunder: boolean;
+	weight: number;
+	probability: number;
+}
+
+/** Everything about one choice, logged for tuning the distribution */
+export interface HumanMoveChoice {
+	fen: FEN;
+	elo: number;
+	complexity: number; // 0-1, share of candidates that are captures or checks
+	temperature: number;
+	candidates: HumanCandidate[];
+	roll: number;
+	chosen: string; // UCI
+}
+
+/**
+ * Softmax temperature for an Elo: weaker players spread their choices further
+ */
+export function temperatureForElo(elo: number): number {
+	const strength = (clampElo(elo) - MIN_ELO) / (MAX_ELO - MIN_ELO);
+	return WEAKEST_TEMPERATURE + (STRONGEST_TEMPERATURE - WEAKEST_TEMPERATURE) * strength;
+}
+
+/**
+ * The latest exact-scored line for each MultiPV rank of a search, best rank first
+ * A search cut off by its time limit has only reached some ranks at its last depth;
+ * the others keep their line from the depth before instead of being dropped.
+ */
+export function latestLines(infos: UCIInfo[]): MoveAnalysisData[] {
+	const byRank = new Map<number, MoveAnalysisData>();
+	for (const info of infos) {
+		const move = info.pv?.[0];
+		if (!move || !info.score || info.bound || info.depth === undefined) continue;
+
+		const multipv = info.multipv ?? 1;
+		byRank.set(multipv, { move, score: info.score, depth: info.depth, multipv, pv: info.pv });
+	}
+
+	// Ranks shift between depths, so a move can hold two of them; keep its deepest line
+	const byMove = new Map<string, MoveAnalysisData>();
+	const rank = (line: MoveAnalysisData) => line.multipv ?? 1;
+	for (const line of [...byRank.values()].sort((a, b) => b.depth - a.depth || rank(a) - rank(b))) {
+		if (!byMove.has(line.move)) byMove.set(line.move, line);
+	}
+	return [...byMove.values()].sort((a, b) => rank(a) - rank(b));
+}
+
+/**
+ * Pick a move from the MultiPV lines of a search
+ * `captureSquare` is where the opponent's last move captured, if it did, for spotting recaptures.
+ * Lines whose move is not legal in `fen` are skipped; returns null when no usable line is left.
+ */
+export function chooseHumanMove(
+	fen: FEN,
+	lines: MoveAnalysisData[],
+	elo: number,
+	captureSquare: string | null = null,
+	random: () => number = Math.random
+): HumanMoveChoice | null {
+	const features = lines.flatMap((line) => {
+		const chess = new Chess(fen);
+		let played;
+		try {
+			played = chess.move({
+				from: line.move.slice(0, 2),
+				to: line.move.slice(2, 4),
+				promotion: line.move[4]
+			});
+		} catch {
+			// Stale or malformed line
+			return [];
+		}
+		const isCapture = played.captured !== undefined;
+		return {
+			move: line.move,
+			san: played.san,
+			multipv: line.multipv ?? 1,
+			winChance: evaluationToWinChance(toEvaluationScore(line.score)),
+			isRecapture: isCapture && played.to === captureSquare,
+			isTactical: isCapture || chess.inCheck()
+		};
+	});
+	if (features.length === 0) return null;
+
+	const best = Math.max(...features.map((candidate) => candidate.winChance));
+	const complexity = features.filter((candidate) => candidate.isTactical).length / features.length;
+	// Busy positions are harder to get right
+	const temperature = temperatureForElo(elo) * (0.5 + complexity);
+
+	const weighted = features.map((candidate) => {
+		const loss = best - candidate.winChance;
+		const isBlunder = loss >= BLUNDER_LOSS;
+		let weight = Math.exp(-loss / temperature);
+		if (candidate.isRecapture) weight *= RECAPTURE_BONUS;
+		if (isBlunder) weight *= BLUNDER_PENALTY;
+		return { ...candidate, loss, isBlunder, weight, probability: 0 };
+	});
+
+	const total = weighted.reduce((sum, candidate) => sum + candidate.weight, 0);
+	const candidates = weighted.map((candidate) => ({
+		...candidate,
+		probability: candidate.weight / total
+	}));
+
+	const roll = random();
+	let cumulative = 0;
+	let chosen = candidates[candidates.length - 1];
+	for (const candidate of candidates) {
+		cumulative += candidate.probability;
+		if (roll < cumulative) {
+			chosen = candidate;
+			break;
+		}
+	}
+
+	return {
+		fen,
+		elo: clampElo(elo),
+		complexity,
+		temperature,
+		candidates,
+		roll,
+		chosen: chosen.move
+	};
+}
@@ -102,6 +102,42 @@ export function batchUciToSan(fen: string, uciMoves: string[]): Map<string, Move
   return results;
 }
 
+/**
+ * A single move of a principal variation, with the position after it
+ */
+export interface PvStep {
+  uci: string;
+  san: string;
+  fen: string;
+}
+
+/**
+ * Convert a principal variation to SAN by playing it out move by move
+ * Stops at the first illegal move, so a stale PV yields a shorter line
+ */
+export function pvToSan(fen: string, pv: string[]): PvStep[] {
+  const steps: PvStep[] = [];
+
+  try {
+    const chess = new Chess(fen);
+
+    for (const uci of pv) {
+      if (uci.length < 4) break;
+
+      const move = chess.move({
+        from: uci.substring(0, 2),
+        to: uci.substring(2, 4),
+        promotion: uci.length > 4 ? uci[4] : undefined
+      });
+      steps.push({ uci, san: move.san, fen: chess.fen() });
+    }
+  } catch {
+    // chess.js throws on illegal moves; keep the legal prefix
+  }
+
+  return steps;
+}
+
 /**
  * Get the move's destination square for simple display
  */
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { GameManager } from './gameManager';
+import {
+	formatEvalComment,
+	parseEvalComment,
+	parsePgnTimeControl,
+	pgnDate,
+	pgnTimeControl
+} from './pgn';
+
+// After 1. e4 e5
+const OPEN_GAME = 'rnbqkbnr/pppp1ppp/8/4p3/4P3/8/PPPP1PPP/RNBQKBNR w KQkq - 0 2';
+// King and pawn endgame, White to move
+const ENDGAME = '8/8/8/4k3/8/8/4PK2/8 w - - 0 40';
+
+describe('PGN', () => {
+	it('formats tag values', () => {
+		expect(pgnDate(new Date(2024, 2, 9))).toBe('2024.03.09');
+		expect(pgnTimeControl({ initial: 300_000, increment: 3_000 })).toBe('300+3');
+		expect(pgnTimeControl({ initial: 60_000, increment: 0 })).toBe('60');
+		expect(pgnTimeControl(null)).toBe('-');
+		expect(parsePgnTimeControl('300+3')).toEqual({ initial: 300_000, increment: 3_000 });
+		expect(parsePgnTimeControl('-')).toBeNull();
+	});
+
+	it('writes and reads [%eval] comments', () => {
+		expect(formatEvalComment({ type: 'cp', value: 34 })).toBe('[%eval 0.34]');
+		expect(formatEvalComment({ type: 'cp', value: -120 })).toBe('[%eval -1.20]');
+		expect(formatEvalComment({ type: 'mate', value: -3 })).toBe('[%eval #-3]');
+
+		expect(parseEvalComment('[%eval 0.34] good move')).toEqual({ type: 'cp', value: 34 });
+		expect(parseEvalComment('[%clk 0:05:00] [%eval #2]')).toEqual({ type: 'mate', value: 2 });
+		expect(parseEvalComment('just a comment')).toBeNull();
+	});
+
+	it('exports the Seven Tag Roster, settings and evaluations', () => {
+		const manager = new GameManager(undefined, 'black', 1800, 'engine', {
+			initial: 180_000,
+			increment: 2_000
+		});
+		manager.loadPgn('1. e4 e5');
+		manager.recordEvaluation(OPEN_GAME, { type: 'cp', value: 28 });
+
+		const pgn = manager.toPgn({ date: new Date(2024, 0, 5) });
+
+		expect(pgn).toContain('[Event "Play vs Computer"]');
+		expect(pgn).toContain('[Date "2024.01.05"]');
+		expect(pgn).toContain('[White "Stockfish (1800 Elo)"]');
+		expect(pgn).toContain('[Black "Player"]');
+		expect(pgn).toContain('[WhiteElo "1800"]');
+		expect(pgn).toContain('[Result "*"]');
+		expect(pgn).toContain('[TimeControl "180+2"]');
+		expect(pgn).not.toContain('[SetUp');
+		expect(pgn).toMatch(/1\. e4 e5 \{\[%eval 0\.28\]\} \*$/);
+		expect(manager.toPgn({ evals: false })).not.toContain('%eval');
+	});
+
+	it('records a custom start and the result', () => {
+		const mated = new GameManager();
+		mated.loadPgn('1. f3 e5 2. g4 Qh4#');
+		expect(mated.getResult()).toBe('0-1');
+		expect(mated.toPgn()).toMatch(/Qh4# 0-1$/);
+
+		const endgame = new GameManager(ENDGAME);
+		const pgn = endgame.toPgn();
+		expect(pgn).toContain('[SetUp "1"]');
+		expect(pgn).toContain(`[FEN "${ENDGAME}"]`);
+	});
+
+	it('continues from the final position of an imported game', () => {
+		const manager = new GameManager();
+		manager.loadPgn(`[SetUp "1"]\n[FEN "${ENDGAME}"]\n\n40. Kf3 Kd4 {[%eval -0.15]} *`);
+
+		expect(manager.getFen()).toBe('8/8/8/8/3k4/5K2/4P3/8 w - - 2 41');
+		expect(manager.getState().moveHistory.map((move) => move.san)).toEqual(['Kf3', 'Kd4']);
+		expect(manager.toPgn()).toContain(`[FEN "${ENDGAME}"]`);
+		expect(manager.toPgn()).toContain('Kd4 {[%eval -0.15]}');
+	});
+
+	it('rejects text that is not PGN', () => {
+		expect(() => new GameManager().loadPgn('1. e4 e5 2. Qxf7')).toThrow();
+	});
+});
@@ -0,0 +1,58 @@
+/**
+ * PGN helpers
+ * Tag values and `[%eval]` comments for games exported from /play, in the
+ * formats other chess software reads
+ */
+
+import type { TimeControl } from '$lib/chessClock';
+import type { MoveScore } from '$lib/uciParser';
+
+export type PgnResult = '1-0' | '0-1' | '1/2-1/2' | '*';
+
+const EVAL_COMMENT = /\[%eval\s+(#?)([+-]?\d+(?:\.\d+)?)\]/;
+
+/**
+ * Date tag value, e.g. "2024.03.09"
+ */
+export function pgnDate(date: Date): string {
+	const month = String(date.getMonth() + 1).padStart(2, '0');
+	const day = String(date.getDate()).padStart(2, '0');
+	return `${date.getFullYear()}.${month}.${day}`;
+}
+
+/**
+ * TimeControl tag value: seconds plus increment, or "-" for an untimed game
+ */
+export function pgnTimeControl(control: TimeControl | null): string {
+	if (!control) return '-';
+	const initial = Math.round(control.initial / 1000);
+	const increment = Math.round(control.increment / 1000);
+	return increment > 0 ? `${initial}+${increment}` : String(initial);
+}
+
+/**
+ * Read a TimeControl tag back; null for untimed or unrecognised values
+ */
+export function parsePgnTimeControl(value: string | undefined): TimeControl | null {
+	const match = value?.match(/^(\d+)(?:\+(\d+))?$/);
+	if (!match) return null;
+	return { initial: Number(match[1]) * 1000, increment: Number(match[2] ?? 0) * 1000 };
+}
+
+/**
+ * `[%eval]` comment for a score from white's perspective: pawns, or `#n` for mate
+ */
+export function formatEvalComment(score: MoveScore): string {
+	if (score.type === 'mate') return `[%eval #${score.value}]`;
+	return `[%eval ${(score.value / 100).toFixed(2)}]`;
+}
+
+/**
+ * The score in an `[%eval]` comment, from white's perspective, or null when there is none
+ */
+export function parseEvalComment(comment: string): MoveScore | null {
+	const match = comment.match(EVAL_COMMENT);
+	if (!match) return null;
+	const value = Number(match[2]);
+	return match[1] ? { type: 'mate', value } : { type: 'cp', value: Math.round(value * 100) };
+}
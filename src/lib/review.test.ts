@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { INITIAL_EASE_FACTOR, MIN_EASE_FACTOR, qualityFromError, scheduleReview } from './review';
+import { DEFAULT_SCORING_MODEL } from './scoring';
+
+const DAY_IN_MS = 1000 * 60 * 60 * 24;
+const NOW = new Date('2026-01-01T00:00:00Z');
+
+describe('qualityFromError', () => {
+	const tolerance = DEFAULT_SCORING_MODEL.tolerance;
+
+	it('rates guesses within the scoring tolerance as recalled', () => {
+		expect(qualityFromError(0)).toBe(5);
+		expect(qualityFromError(tolerance)).toBe(3);
+	});
+
+	it('rates large misses as failed', () => {
+		expect(qualityFromError(tolerance * 1.5)).toBe(2);
+		expect(qualityFromError(tolerance * 2.5)).toBe(1);
+		expect(qualityFromError(0.9)).toBe(0);
+	});
+});
+
+describe('scheduleReview', () => {
+	it('brings a new miss back the next day', () => {
+		const card = scheduleReview(null, 0, NOW);
+		expect(card).toMatchObject({ interval: 1, repetitions: 0 });
+		expect(card.dueAt.getTime() - NOW.getTime()).toBe(DAY_IN_MS);
+	});
+
+	it('grows the interval with successful reviews', () => {
+		let card = scheduleReview(null, 4, NOW);
+		expect(card.interval).toBe(1);
+		card = scheduleReview(card, 4, NOW);
+		expect(card.interval).toBe(6);
+		card = scheduleReview(card, 4, NOW);
+		expect(card.interval).toBe(Math.round(6 * INITIAL_EASE_FACTOR));
+	});
+
+	it('starts over after a miss and never drops the ease factor below the floor', () => {
+		let card = scheduleReview(null, 5, NOW);
+		card = scheduleReview(card, 5, NOW);
+		for (let i = 0; i < 10; i++) {
+			card = scheduleReview(card, 0, NOW);
+		}
+		expect(card).toMatchObject({ interval: 1, repetitions: 0, easeFactor: MIN_EASE_FACTOR });
+	});
+});
@@ -0,0 +1,93 @@
+/**
+ * Spaced repetition for missed positions (SM-2)
+ * Guess errors from the scorer are turned into SM-2 recall qualities
+ */
+
+import { DEFAULT_SCORING_MODEL, type ScoringModel } from '$lib/scoring';
+
+/** Scheduling state of one position for one player */
+export interface ReviewCard {
+	easeFactor: number;
+	interval: number; // Days until the next review
+	repetitions: number; // Successful reviews in a row
+	dueAt: Date;
+}
+
+/** SM-2 recall quality, 0 (blackout) to 5 (perfect) */
+export type ReviewQuality = 0 | 1 | 2 | 3 | 4 | 5;
+
+export const INITIAL_EASE_FACTOR = 2.5;
+export const MIN_EASE_FACTOR = 1.3;
+
+// Guesses at or below this quality put a new position into the review queue
+export const BAD_MISS_QUALITY: ReviewQuality = 1;
+
+// Quality thresholds as multiples of the scoring tolerance, best first
+const QUALITY_THRESHOLDS: [number, ReviewQuality][] = [
+	[0.25, 5],
+	[0.5, 4],
+	[1, 3],
+	[2, 2],
+	[3, 1]
+];
+
+const DAY_IN_MS = 1000 * 60 * 60 * 24;
+
+/**
+ * Recall quality for a guess, from its win-probability error
+ * Anything within the scoring tolerance counts as recalled (3 or better)
+ */
+export function qualityFromError(
+	error: number,
+	model: ScoringModel = DEFAULT_SCORING_MODEL
+): ReviewQuality {
+	for (const [multiple, quality] of QUALITY_THRESHOLDS) {
+		if (error <= model.tolerance * multiple) return quality;
+	}
+	return 0;
+}
+
+/**
+ * Schedule the next review after a guess, starting a new card when there is none
+ */
+export function scheduleReview(
+	card: ReviewCard | null,
+	quality: ReviewQuality,
+	now: Date = new Date()
+): ReviewCard {
+	const previous = card ?? {
+		easeFactor: INITIAL_EASE_FACTOR,
+		interval: 0,
+		repetitions: 0,
+		dueAt: now
+	};
+
+	const easeFactor = Math.max(
+		MIN_EASE_FACTOR,
+		previous.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+	);
+
+	let repetitions: number;
+	let interval: number;
+	if (quality < 3) {
+		// Missed: start over tomorrow
+		repetitions = 0;
+		interval = 1;
+	} else {
+		repetitions = previous.repetitions + 1;
+		if (repetitions === 1) {
+			interval = 1;
+		} else if (repetitions === 2) {
+			interval = 6;
+		} else {
+			interval = Math.round(previous.interval * previous.easeFactor);
+		}
+	}
+
+	return {
+		easeFactor,
+		interval,
+		repetitions,
+		dueAt: new Date(now.getTime() + interval * DAY_IN_MS)
+	};
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { GameManager } from './gameManager';
+import { isSavedGame, latestGame, replaySavedGame, type SavedGame } from './savedGame';
+
+const START = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+
+function saved(overrides: Partial<SavedGame> = {}): SavedGame {
+	return {
+		startFen: START,
+		moves: ['e2e4', 'e7e5', 'g1f3'],
+		playerColor: 'black',
+		computerElo: 1600,
+		opponent: 'engine',
+		clock: null,
+		savedAt: 1000,
+		...overrides
+	};
+}
+
+describe('saved games', () => {
+	it('accepts only well-formed records', () => {
+		expect(isSavedGame(saved())).toBe(true);
+		expect(isSavedGame(JSON.parse(JSON.stringify(saved())))).toBe(true);
+		expect(isSavedGame({ ...saved(), moves: ['Nf3'] })).toBe(false);
+		expect(isSavedGame({ ...saved(), playerColor: 'red' })).toBe(false);
+		expect(isSavedGame({ ...saved(), clock: { white: 1000 } })).toBe(false);
+		expect(isSavedGame(null)).toBe(false);
+	});
+
+	it('replays legal moves only', () => {
+		expect(replaySavedGame(saved())?.fen()).toBe(
+			'rnbqkbnr/pppp1ppp/8/4p3/4P3/5N2/PPPP1PPP/RNBQKB1R b KQkq - 1 2'
+		);
+		expect(replaySavedGame(saved({ moves: ['e2e4', 'e2e4'] }))).toBeNull();
+	});
+
+	it('prefers the most recent copy', () => {
+		const local = saved({ savedAt: 2000 });
+		const remote = saved({ savedAt: 3000 });
+
+		expect(latestGame(local, remote)).toBe(remote);
+		expect(latestGame(null, local, undefined)).toBe(local);
+		expect(latestGame(null, null)).toBeNull();
+	});
+
+	it('round-trips a game with its settings and clock', () => {
+		const manager = new GameManager(undefined, 'black', 1600, 'human', {
+			initial: 300_000,
+			increment: 3_000
+		});
+		manager.loadPgn('1. e4 e5 2. Nf3');
+		const record = manager.toSavedGame(5000);
+
+		expect(record).toMatchObject({
+			moves: ['e2e4', 'e7e5', 'g1f3'],
+			playerColor: 'black',
+			opponent: 'human'
+		});
+		expect(record.clock).toMatchObject({ white: 300_000, black: 300_000, running: null });
+
+		const resumed = new GameManager();
+		resumed.restore(JSON.parse(JSON.stringify(record)));
+		const state = resumed.getState();
+
+		expect(state.fen).toBe(manager.getFen());
+		expect(state.clock?.control).toEqual({ initial: 300_000, increment: 3_000 });
+		expect(resumed.toSavedGame(6000).moves).toEqual(record.moves);
+	});
+
+	it('charges the side to move for the time away', () => {
+		const control = { initial: 60_000, increment: 0 };
+		const clock = {
+			control,
+			white: 55_000,
+			black: 50_000,
+			running: 'b' as const,
+			turnStartedAt: 1000,
+			flagged: null
+		};
+		expect(isSavedGame(saved({ clock }))).toBe(true);
+		expect(isSavedGame(saved({ clock: { ...clock, turnStartedAt: null } }))).toBe(false);
+
+		const resumed = new GameManager();
+		resumed.restore(saved({ clock }), 21_000);
+		expect(resumed.getState().clock).toMatchObject({ white: 55_000, black: 30_000, running: null });
+		expect(resumed.getState().isTimeout).toBe(false);
+
+		const expired = new GameManager();
+		expired.restore(saved({ clock }), 90_000);
+		expect(expired.getState()).toMatchObject({ isTimeout: true, isGameOver: true });
+		expect(expired.getState().clock?.flagged).toBe('b');
+	});
+
+	it('refuses a record that is not a legal game', () => {
+		expect(() => new GameManager().restore(saved({ moves: ['e2e5'] }))).toThrow();
+	});
+});
@@ -0,0 +1,119 @@
+/**
+ * Saved games
+ * The in-progress /play game as plain data: kept in localStorage after every
+ * move, and on the server for signed-in players, so it can be resumed later
+ */
+
+import { Chess } from 'chess.js';
+import { browser } from '$app/environment';
+import type { ClockState } from '$lib/chessClock';
+import type { OpponentStyle } from '$lib/gameManager';
+import type { FEN } from '$lib/types/chess';
+
+const STORAGE_KEY = 'play-saved-game';
+
+const UCI_MOVE = /^[a-h][1-8][a-h][1-8][qrbn]?$/;
+
+export interface SavedGame {
+	startFen: FEN;
+	moves: string[]; // UCI, played from startFen
+	playerColor: 'white' | 'black';
+	computerElo: number;
+	opponent: OpponentStyle;
+	clock: ClockState | null; // As it was, so time away from the game is charged on resuming
+	savedAt: number; // Epoch milliseconds
+}
+
+function isClockState(value: unknown): value is ClockState {
+	if (typeof value !== 'object' || value === null) return false;
+	const clock = value as Record<string, unknown>;
+	const control = clock.control as Record<string, unknown> | null;
+	return (
+		typeof control === 'object' &&
+		control !== null &&
+		typeof control.initial === 'number' &&
+		typeof control.increment === 'number' &&
+		typeof clock.white === 'number' &&
+		typeof clock.black === 'number' &&
+		(clock.running === null || clock.running === 'w' || clock.running === 'b') &&
+		(clock.turnStartedAt === null || typeof clock.turnStartedAt === 'number') &&
+		(clock.running === null) === (clock.turnStartedAt === null) &&
+		(clock.flagged === null || clock.flagged === 'w' || clock.flagged === 'b')
+	);
+}
+
+/**
+ * Whether stored or submitted data has the shape of a saved game
+ */
+export function isSavedGame(value: unknown): value is SavedGame {
+	if (typeof value !== 'object' || value === null) return false;
+	const game = value as Record<string, unknown>;
+	return (
+		typeof game.startFen === 'string' &&
+		Array.isArray(game.moves) &&
+		game.moves.every((move) => typeof move === 'string' && UCI_MOVE.test(move)) &&
+		(game.playerColor === 'white' || game.playerColor === 'black') &&
+		typeof game.computerElo === 'number' &&
+		(game.opponent === 'engine' || game.opponent === 'human') &&
+		(game.clock === null || isClockState(game.clock)) &&
+		typeof game.savedAt === 'number'
+	);
+}
+
+/**
+ * Play the saved moves from the start position; null when the record does not describe a legal game
+ */
+export function replaySavedGame(game: SavedGame): Chess | null {
+	try {
+		const chess = new Chess(game.startFen);
+		for (const move of game.moves) {
+			chess.move({ from: move.slice(0, 2), to: move.slice(2, 4), promotion: move[4] });
+		}
+		return chess;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * The most recently saved of several copies of a game, e.g. this browser's and the server's
+ */
+export function latestGame(...games: (SavedGame | null | undefined)[]): SavedGame | null {
+	let latest: SavedGame | null = null;
+	for (const game of games) {
+		if (game && (!latest || game.savedAt > latest.savedAt)) latest = game;
+	}
+	return latest;
+}
+
+/**
+ * The game saved in this browser, if there is a valid one
+ */
+export function loadLocalGame(): SavedGame | null {
+	if (!browser) return null;
+
+	try {
+		const stored = localStorage.getItem(STORAGE_KEY);
+		if (!stored) return null;
+		const game: unknown = JSON.parse(stored);
+		return isSavedGame(game) ? game : null;
+	} catch (e) {
+		console.error('Failed to load saved game:', e);
+		return null;
+	}
+}
+
+export function saveLocalGame(game: SavedGame): void {
+	if (!browser) return;
+
+	try {
+		localStorage.setItem(STORAGE_KEY, JSON.stringify(game));
+	} catch (e) {
+		console.error('Failed to save game:', e);
+	}
+}
+
+export function clearLocalGame(): void {
+	if (!browser) return;
+	localStorage.removeItem(STORAGE_KEY);
+}
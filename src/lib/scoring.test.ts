@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import {
+	DEFAULT_SCORING_MODEL,
+	evaluationToWinChance,
+	parseGuess,
+	scoreGuess,
+	toEvaluationScore,
+	winProbability
+} from './scoring';
+
+describe('winProbability', () => {
+	it('is even for a balanced position', () => {
+		expect(winProbability(0)).toBe(0.5);
+	});
+
+	it('is symmetric between white and black', () => {
+		expect(winProbability(250) + winProbability(-250)).toBeCloseTo(1, 10);
+	});
+
+	it('increases with the evaluation', () => {
+		expect(winProbability(100)).toBeGreaterThan(winProbability(50));
+		expect(winProbability(900)).toBeGreaterThan(winProbability(600));
+		expect(winProbability(900)).toBeLessThan(1);
+	});
+});
+
+describe('parseGuess', () => {
+	it('parses pawn guesses', () => {
+		expect(parseGuess(1.5)).toMatchObject({ score: 1.5, isMate: false, displayScore: '+1.50' });
+		expect(parseGuess(-0.25)).toMatchObject({ score: -0.25, isMate: false, displayScore: '-0.25' });
+	});
+
+	it('parses the mate strings emitted by ManualEvalBar', () => {
+		expect(parseGuess('M3')).toMatchObject({ isMate: true, mateIn: 3, displayScore: '+M3' });
+		expect(parseGuess('-M3')).toMatchObject({ isMate: true, mateIn: -3, displayScore: '-M3' });
+		expect(parseGuess('M3').score).toBeGreaterThan(0);
+		expect(parseGuess('-M3').score).toBeLessThan(0);
+	});
+});
+
+describe('toEvaluationScore', () => {
+	it('converts centipawns to pawns', () => {
+		expect(toEvaluationScore({ type: 'cp', value: -135 })).toMatchObject({
+			score: -1.35,
+			isMate: false,
+			displayScore: '-1.35'
+		});
+	});
+
+	it('keeps the mate distance and side', () => {
+		expect(toEvaluationScore({ type: 'mate', value: -4 })).toMatchObject({
+			isMate: true,
+			mateIn: -4,
+			displayScore: '-M4'
+		});
+	});
+});
+
+describe('evaluationToWinChance', () => {
+	it('treats any forced mate as a certain result', () => {
+		expect(evaluationToWinChance(parseGuess('M1'))).toBe(1);
+		expect(evaluationToWinChance(parseGuess('M12'))).toBe(1);
+		expect(evaluationToWinChance(parseGuess('-M7'))).toBe(0);
+	});
+});
+
+describe('scoreGuess', () => {
+	it('accepts a close guess in a lopsided position', () => {
+		const result = scoreGuess(6, toEvaluationScore({ type: 'cp', value: 900 }));
+		expect(result.isCorrect).toBe(true);
+		expect(result.points).toBeGreaterThan(80);
+	});
+
+	it('punishes the same pawn gap harder in a balanced position', () => {
+		const balanced = scoreGuess(0, toEvaluationScore({ type: 'cp', value: 300 }));
+		const lopsided = scoreGuess(6, toEvaluationScore({ type: 'cp', value: 900 }));
+		expect(balanced.error).toBeGreaterThan(lopsided.error);
+		expect(balanced.isCorrect).toBe(false);
+	});
+
+	it('awards full points for an exact guess', () => {
+		const result = scoreGuess(0.4, toEvaluationScore({ type: 'cp', value: 40 }));
+		expect(result.error).toBe(0);
+		expect(result.points).toBe(DEFAULT_SCORING_MODEL.maxPoints);
+	});
+
+	it('matches mate guesses with engine mates of any length for the same side', () => {
+		const result = scoreGuess('M3', toEvaluationScore({ type: 'mate', value: 5 }));
+		expect(result.isCorrect).toBe(true);
+		expect(result.error).toBe(0);
+	});
+
+	it('gives nothing for a mate guess for the wrong side', () => {
+		const result = scoreGuess('-M3', toEvaluationScore({ type: 'mate', value: 2 }));
+		expect(result.isCorrect).toBe(false);
+		expect(result.points).toBe(0);
+	});
+
+	it('scores a mate guess against a winning centipawn evaluation on the same scale', () => {
+		expect(scoreGuess('M3', toEvaluationScore({ type: 'cp', value: 1500 })).isCorrect).toBe(true);
+		expect(scoreGuess('M3', toEvaluationScore({ type: 'cp', value: 50 })).isCorrect).toBe(false);
+	});
+
+	it('follows a custom model', () => {
+		const strict = { ...DEFAULT_SCORING_MODEL, tolerance: 0.01 };
+		const engine = toEvaluationScore({ type: 'cp', value: 900 });
+		expect(scoreGuess(6, engine, strict).isCorrect).toBe(false);
+	});
+});
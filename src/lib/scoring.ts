@@ -0,0 +1,146 @@
+/**
+ * Guess scoring model
+ * Compares evaluation guesses with the engine on a win-probability scale,
+ * so being off by a pawn matters in balanced positions but hardly at all
+ * once one side is clearly winning
+ */
+
+import type { MoveScore } from '$lib/uciParser';
+import type { EvaluationScore } from '$lib/types/chess';
+
+/** Guess as emitted by ManualEvalBar: pawns, or a mate string like 'M3' / '-M3' */
+export type EvalGuess = number | string;
+
+export interface ScoringModel {
+	/** Logistic slope per centipawn mapping evaluations to expected score */
+	slope: number;
+	/** Maximum win-probability error (0-1) for a guess to count as correct */
+	tolerance: number;
+	/** Win-probability error (0-1) at which a guess earns no points */
+	zeroPointsError: number;
+	/** Points awarded for a perfect guess */
+	maxPoints: number;
+}
+
+/** Default model, using the logistic fit lichess applies to Stockfish evaluations */
+export const DEFAULT_SCORING_MODEL: ScoringModel = {
+	slope: 0.00368208,
+	tolerance: 0.1,
+	zeroPointsError: 0.5,
+	maxPoints: 100
+};
+
+export interface GuessScore {
+	/** White's expected score (0-1) implied by the guess */
+	guessWinChance: number;
+	/** White's expected score (0-1) implied by the engine evaluation */
+	engineWinChance: number;
+	/** Absolute difference between the two expected scores */
+	error: number;
+	/** Points earned for the guess */
+	points: number;
+	/** Whether the error is within the model's tolerance */
+	isCorrect: boolean;
+}
+
+/**
+ * Convert a ManualEvalBar guess into an EvaluationScore (white's perspective)
+ */
+export function parseGuess(guess: EvalGuess): EvaluationScore {
+	if (typeof guess === 'string') {
+		const mateMatch = guess.trim().match(/^([+-]?)M(\d+)$/);
+		if (mateMatch) {
+			const moves = parseInt(mateMatch[2], 10);
+			const mateIn = mateMatch[1] === '-' ? -moves : moves;
+			return {
+				score: mateIn < 0 ? -(1000 - moves) : 1000 - moves,
+				isMate: true,
+				mateIn,
+				displayScore: mateIn < 0 ? `-M${moves}` : `+M${moves}`
+			};
+		}
+		guess = parseFloat(guess) || 0;
+	}
+
+	return {
+		score: guess,
+		isMate: false,
+		mateIn: 0,
+		displayScore: guess > 0 ? `+${guess.toFixed(2)}` : guess.toFixed(2)
+	};
+}
+
+/**
+ * Convert a stored engine score (white's perspective) into an EvaluationScore
+ */
+export function toEvaluationScore(score: MoveScore): EvaluationScore {
+	if (score.type === 'mate') {
+		const moves = Math.abs(score.value);
+		if (moves === 0) {
+			return { score: 0, isMate: true, mateIn: 0, displayScore: '#' };
+		}
+		return {
+			score: score.value < 0 ? -(1000 - moves) : 1000 - moves,
+			isMate: true,
+			mateIn: score.value,
+			displayScore: score.value < 0 ? `-M${moves}` : `+M${moves}`
+		};
+	}
+
+	const pawns = score.value / 100;
+	return {
+		score: pawns,
+		isMate: false,
+		mateIn: 0,
+		displayScore: pawns > 0 ? `+${pawns.toFixed(2)}` : pawns.toFixed(2)
+	};
+}
+
+/**
+ * White's expected score (0-1) for a centipawn evaluation
+ */
+export function winProbability(
+	centipawns: number,
+	model: ScoringModel = DEFAULT_SCORING_MODEL
+): number {
+	return 1 / (1 + Math.exp(-model.slope * centipawns));
+}
+
+/**
+ * White's expected score (0-1) for an evaluation
+ * A forced mate is a certain result, however many moves it takes
+ */
+export function evaluationToWinChance(
+	evaluation: EvaluationScore,
+	model: ScoringModel = DEFAULT_SCORING_MODEL
+): number {
+	if (evaluation.isMate) {
+		if (evaluation.score === 0) return 0.5;
+		return evaluation.score > 0 ? 1 : 0;
+	}
+	return winProbability(evaluation.score * 100, model);
+}
+
+/**
+ * Score a guess against the engine evaluation on the win-probability scale
+ */
+export function scoreGuess(
+	guess: EvaluationScore | EvalGuess,
+	engine: EvaluationScore,
+	model: ScoringModel = DEFAULT_SCORING_MODEL
+): GuessScore {
+	const parsedGuess = typeof guess === 'object' ? guess : parseGuess(guess);
+	const guessWinChance = evaluationToWinChance(parsedGuess, model);
+	const engineWinChance = evaluationToWinChance(engine, model);
+	const error = Math.abs(guessWinChance - engineWinChance);
+
+	const accuracy = Math.max(0, 1 - error / model.zeroPointsError);
+
+	return {
+		guessWinChance,
+		engineWinChance,
+		error,
+		points: Math.round(model.maxPoints * accuracy),
+		isCorrect: error <= model.tolerance
+	};
+}
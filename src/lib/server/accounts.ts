@@ -0,0 +1,137 @@
+import { and, count, eq, isNull, notInArray } from 'drizzle-orm';
+import { db } from './db';
+import { dailyEntries, guesses, reviews, user, type User } from './db/schema';
+import { hashPassword, verifyPassword } from './auth';
+
+export const USERNAME_PATTERN = /^[a-z0-9_-]{3,31}$/;
+export const MIN_PASSWORD_LENGTH = 6;
+export const MAX_PASSWORD_LENGTH = 255;
+
+export function isValidUsername(username: unknown): username is string {
+	return typeof username === 'string' && USERNAME_PATTERN.test(username);
+}
+
+export function isValidPassword(password: unknown): password is string {
+	return (
+		typeof password === 'string' &&
+		password.length >= MIN_PASSWORD_LENGTH &&
+		password.length <= MAX_PASSWORD_LENGTH
+	);
+}
+
+/**
+ * Create an account. When a guest token is given, the guest record becomes the
+ * account, keeping its rating and history.
+ * Returns null when the username is taken, including by a sign-up racing this one
+ */
+export async function registerUser(
+	username: string,
+	password: string,
+	guestToken?: string
+): Promise<User | null> {
+	const [existing] = await db.select({ id: user.id }).from(user).where(eq(user.username, username));
+	if (existing) return null;
+
+	const passwordHash = await hashPassword(password);
+
+	try {
+		if (guestToken) {
+			const [claimed] = await db
+				.update(user)
+				.set({ username, passwordHash, guestToken: null })
+				.where(and(eq(user.guestToken, guestToken), isNull(user.username)))
+				.returning();
+			if (claimed) return claimed;
+		}
+
+		const [created] = await db.insert(user).values({ username, passwordHash }).returning();
+		return created;
+	} catch (e) {
+		if (isUniqueViolation(e)) return null;
+		throw e;
+	}
+}
+
+// Postgres reports a duplicate key as SQLSTATE 23505
+function isUniqueViolation(error: unknown): boolean {
+	return (error as { code?: unknown } | null)?.code === '23505';
+}
+
+/**
+ * Check a username and password
+ * Returns null when they do not match an account
+ */
+export async function authenticateUser(username: string, password: string): Promise<User | null> {
+	const [account] = await db.select().from(user).where(eq(user.username, username));
+	if (!account?.passwordHash) return null;
+
+	return (await verifyPassword(password, account.passwordHash)) ? account : null;
+}
+
+/**
+ * Move a guest's guesses and review queue into an existing account and drop the guest
+ * record. The account keeps its own rating, so the guest's rating history is dropped too,
+ * as are guest daily challenges on days the account has already played and guest reviews
+ * of positions the account is already reviewing.
+ * Returns the number of guesses moved
+ */
+export async function claimGuestHistory(guestToken: string, userId: number): Promise<number> {
+	return db.transaction(async (tx) => {
+		const [guest] = await tx
+			.select({ id: user.id })
+			.from(user)
+			.where(and(eq(user.guestToken, guestToken), isNull(user.username)));
+		if (!guest || guest.id === userId) return 0;
+
+		const moved = await tx
+			.update(guesses)
+			.set({ userId })
+			.where(eq(guesses.userId, guest.id))
+			.returning({ id: guesses.id });
+		await tx
+			.update(dailyEntries)
+			.set({ userId })
+			.where(
+				and(
+					eq(dailyEntries.userId, guest.id),
+					notInArray(
+						dailyEntries.date,
+						tx
+							.select({ date: dailyEntries.date })
+							.from(dailyEntries)
+							.where(eq(dailyEntries.userId, userId))
+					)
+				)
+			);
+		await tx
+			.update(reviews)
+			.set({ userId })
+			.where(
+				and(
+					eq(reviews.userId, guest.id),
+					notInArray(
+						reviews.positionId,
+						tx
+							.select({ positionId: reviews.positionId })
+							.from(reviews)
+							.where(eq(reviews.userId, userId))
+					)
+				)
+			);
+		await tx.delete(user).where(eq(user.id, guest.id));
+
+		return moved.length;
+	});
+}
+
+/**
+ * Number of guesses recorded for a guest, for offering to claim them
+ */
+export async function countGuestGuesses(guestToken: string): Promise<number> {
+	const [result] = await db
+		.select({ count: count() })
+		.from(guesses)
+		.innerJoin(user, eq(guesses.userId, user.id))
+		.where(and(eq(user.guestToken, guestToken), isNull(user.username)));
+	return result?.count ?? 0;
+}
@@ -0,0 +1,132 @@
+import type { RequestEvent } from '@sveltejs/kit';
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'node:crypto';
+import { promisify } from 'node:util';
+import { eq } from 'drizzle-orm';
+import { db } from './db';
+import { session, user, type Session } from './db/schema';
+
+const scryptAsync = promisify(scrypt) as (
+	password: string,
+	salt: Buffer,
+	keylen: number
+) => Promise<Buffer>;
+
+const DAY_IN_MS = 1000 * 60 * 60 * 24;
+
+// Sessions last 30 days and are extended when used in their last 15
+const SESSION_DURATION_MS = DAY_IN_MS * 30;
+const SESSION_RENEW_MS = DAY_IN_MS * 15;
+
+const KEY_LENGTH = 64;
+
+export const sessionCookieName = 'auth-session';
+
+/** The signed-in user as exposed through locals */
+export interface SessionUser {
+	id: number;
+	username: string;
+}
+
+export type SessionValidationResult =
+	| { session: Session; user: SessionUser }
+	| { session: null; user: null };
+
+/**
+ * Hash a password with a random salt, as "salt:key" in hex
+ */
+export async function hashPassword(password: string): Promise<string> {
+	const salt = randomBytes(16);
+	const key = await scryptAsync(password, salt, KEY_LENGTH);
+	return `${salt.toString('hex')}:${key.toString('hex')}`;
+}
+
+export async function verifyPassword(password: string, hash: string): Promise<boolean> {
+	const [saltHex, keyHex] = hash.split(':');
+	if (!saltHex || !keyHex) return false;
+
+	const expected = Buffer.from(keyHex, 'hex');
+	const key = await scryptAsync(password, Buffer.from(saltHex, 'hex'), expected.length);
+	return timingSafeEqual(key, expected);
+}
+
+/**
+ * Whether a request carries the given token as "Authorization: Bearer <token>"
+ * Compares digests, so the check takes the same time however much of the token matches
+ */
+export function hasBearerToken(request: Request, token: string): boolean {
+	const header = request.headers.get('authorization') ?? '';
+	const digest = (value: string) => createHash('sha256').update(value).digest();
+	return timingSafeEqual(digest(header), digest(`Bearer ${token}`));
+}
+
+export function generateSessionToken(): string {
+	return randomBytes(24).toString('base64url');
+}
+
+// Only a hash of the token is stored, so a database leak does not leak sessions
+function hashToken(token: string): string {
+	return createHash('sha256').update(token).digest('hex');
+}
+
+export async function createSession(token: string, userId: number): Promise<Session> {
+	const created: Session = {
+		id: hashToken(token),
+		userId,
+		expiresAt: new Date(Date.now() + SESSION_DURATION_MS)
+	};
+	await db.insert(session).values(created);
+	return created;
+}
+
+/**
+ * Look up the session for a cookie token, dropping it when expired
+ * and extending it when it is close to expiring
+ */
+export async function validateSessionToken(token: string): Promise<SessionValidationResult> {
+	const sessionId = hashToken(token);
+	const [result] = await db
+		.select({
+			user: { id: user.id, username: user.username },
+			session
+		})
+		.from(session)
+		.innerJoin(user, eq(session.userId, user.id))
+		.where(eq(session.id, sessionId));
+
+	if (!result || !result.user.username) {
+		return { session: null, user: null };
+	}
+
+	const { session: current } = result;
+	if (Date.now() >= current.expiresAt.getTime()) {
+		await db.delete(session).where(eq(session.id, current.id));
+		return { session: null, user: null };
+	}
+
+	if (Date.now() >= current.expiresAt.getTime() - SESSION_RENEW_MS) {
+		current.expiresAt = new Date(Date.now() + SESSION_DURATION_MS);
+		await db
+			.update(session)
+			.set({ expiresAt: current.expiresAt })
+			.where(eq(session.id, current.id));
+	}
+
+	return { session: current, user: { id: result.user.id, username: result.user.username } };
+}
+
+export async function invalidateSession(sessionId: string): Promise<void> {
+	await db.delete(session).where(eq(session.id, sessionId));
+}
+
+export function setSessionTokenCookie(event: RequestEvent, token: string, expiresAt: Date): void {
+	event.cookies.set(sessionCookieName, token, {
+		path: '/',
+		httpOnly: true,
+		sameSite: 'lax',
+		expires: expiresAt
+	});
+}
+
+export function deleteSessionTokenCookie(event: RequestEvent): void {
+	event.cookies.delete(sessionCookieName, { path: '/' });
+}
@@ -0,0 +1,172 @@
+import { and, asc, count, desc, eq, max, sql } from 'drizzle-orm';
+import { db } from './db';
+import {
+	dailyEntries,
+	dailyPositions,
+	guesses,
+	positions,
+	user,
+	type Guess,
+	type User
+} from './db/schema';
+import { displayName } from './player';
+import { toStreakPosition } from './positions';
+import { toMoveScore } from './stats';
+import { pickDailyIndices, type DailyResult, type DailyStanding } from '$lib/daily';
+import { parseGuess, scoreGuess, toEvaluationScore, type EvalGuess } from '$lib/scoring';
+import type { StreakPosition } from '$lib/streakManager';
+
+/**
+ * The positions of a date's challenge, in slot order
+ * Picked from the bank on first request for the date and kept from then on,
+ * so positions added to the bank later in the day do not change the set
+ */
+export async function getDailyPositions(date: string): Promise<StreakPosition[]> {
+	const existing = await selectDailyPositions(date);
+	if (existing.length > 0) return existing;
+
+	const bank = await db.select({ id: positions.id }).from(positions).orderBy(asc(positions.id));
+	if (bank.length === 0) return [];
+
+	const picked = pickDailyIndices(date, bank.length).map((index, slot) => ({
+		date,
+		slot,
+		positionId: bank[index].id
+	}));
+	// Another request may pick the same set at the same time
+	await db.insert(dailyPositions).values(picked).onConflictDoNothing();
+
+	return selectDailyPositions(date);
+}
+
+async function selectDailyPositions(date: string): Promise<StreakPosition[]> {
+	const rows = await db
+		.select({ position: positions })
+		.from(dailyPositions)
+		.innerJoin(positions, eq(dailyPositions.positionId, positions.id))
+		.where(eq(dailyPositions.date, date))
+		.orderBy(asc(dailyPositions.slot));
+
+	return rows.map(({ position }) => toStreakPosition(position));
+}
+
+/**
+ * A player's guesses so far in a date's challenge, in slot order
+ */
+export async function getDailyResults(userId: number, date: string): Promise<DailyResult[]> {
+	const rows = await db
+		.select({ slot: dailyEntries.slot, guess: guesses })
+		.from(dailyEntries)
+		.innerJoin(guesses, eq(dailyEntries.guessId, guesses.id))
+		.where(and(eq(dailyEntries.userId, userId), eq(dailyEntries.date, date)))
+		.orderBy(asc(dailyEntries.slot));
+
+	return rows.map(({ slot, guess }) => toDailyResult(slot, guess));
+}
+
+function toDailyResult(slot: number, guess: Guess): DailyResult {
+	return {
+		slot,
+		positionId: guess.positionId,
+		guess: toMoveScore(guess.guessCp, guess.guessMate),
+		engine: toMoveScore(guess.evalCp, guess.evalMate),
+		error: guess.error,
+		points: guess.points,
+		isCorrect: guess.isCorrect
+	};
+}
+
+/**
+ * Score and store a player's guess on one slot of a daily challenge
+ * Daily guesses are not rated. A slot keeps its first guess: when it was already
+ * guessed, including by a request racing this one, that result is returned instead
+ */
+export async function recordDailyGuess(
+	player: User,
+	date: string,
+	slot: number,
+	position: StreakPosition,
+	guess: EvalGuess
+): Promise<DailyResult> {
+	return db.transaction(async (tx) => {
+		const parsedGuess = parseGuess(guess);
+		const score = scoreGuess(parsedGuess, toEvaluationScore(position.score));
+		const guessCp = parsedGuess.isMate ? null : Math.round(parsedGuess.score * 100);
+		const guessMate = parsedGuess.isMate ? parsedGuess.mateIn : null;
+
+		const [stored] = await tx
+			.insert(guesses)
+			.values({
+				userId: player.id,
+				positionId: position.id,
+				mode: 'daily',
+				guessCp,
+				guessMate,
+				evalCp: position.score.type === 'cp' ? position.score.value : null,
+				evalMate: position.score.type === 'mate' ? position.score.value : null,
+				error: score.error,
+				points: score.points,
+				isCorrect: score.isCorrect
+			})
+			.returning();
+
+		const [entry] = await tx
+			.insert(dailyEntries)
+			.values({ userId: player.id, date, slot, guessId: stored.id })
+			.onConflictDoNothing()
+			.returning({ id: dailyEntries.id });
+		if (entry) return toDailyResult(slot, stored);
+
+		// Already guessed: keep the first guess
+		await tx.delete(guesses).where(eq(guesses.id, stored.id));
+		const [existing] = await tx
+			.select({ guess: guesses })
+			.from(dailyEntries)
+			.innerJoin(guesses, eq(dailyEntries.guessId, guesses.id))
+			.where(
+				and(
+					eq(dailyEntries.userId, player.id),
+					eq(dailyEntries.date, date),
+					eq(dailyEntries.slot, slot)
+				)
+			);
+		return toDailyResult(slot, existing.guess);
+	});
+}
+
+/**
+ * Players who finished a date's challenge, best first
+ * Ties go to whoever finished first
+ */
+export async function getDailyLeaderboard(
+	date: string,
+	limit: number = 20
+): Promise<DailyStanding[]> {
+	const points = sql<number>`sum(${guesses.points})::int`;
+	const rows = await db
+		.select({
+			userId: user.id,
+			username: user.username,
+			points,
+			correct: sql<number>`count(*) filter (where ${guesses.isCorrect})::int`
+		})
+		.from(dailyEntries)
+		.innerJoin(guesses, eq(dailyEntries.guessId, guesses.id))
+		.innerJoin(user, eq(dailyEntries.userId, user.id))
+		.where(eq(dailyEntries.date, date))
+		.groupBy(user.id)
+		// Only finished challenges: one guess for every position of the day
+		.having(
+			sql`${count()} = (select count(*) from ${dailyPositions} where ${dailyPositions.date} = ${date})`
+		)
+		.orderBy(desc(points), asc(max(guesses.createdAt)))
+		.limit(limit);
+
+	return rows.map((row, index) => ({
+		rank: index + 1,
+		userId: row.userId,
+		name: displayName({ id: row.userId, username: row.username }),
+		points: row.points,
+		correct: row.correct
+	}));
+}
@@ -1,6 +1,214 @@
-import { pgTable, serial, integer } from 'drizzle-orm/pg-core';
+import {
+	pgTable,
+	pgEnum,
+	serial,
+	integer,
+	text,
+	timestamp,
+	date,
+	real,
+	boolean,
+	index,
+	uniqueIndex,
+	jsonb
+} from 'drizzle-orm/pg-core';
 
 export const user = pgTable('user', {
 	id: serial('id').primaryKey(),
-	age: integer('age')
+	age: integer('age'),
+	// Set once the player signs up; guests have neither
+	username: text('username').unique(),
+	passwordHash: text('password_hash'),
+	// Identifies a browser playing without an account
+	guestToken: text('guest_token').unique(),
+	// Glicko-2 rating for the guessing modes
+	rating: real('rating').notNull().default(1500),
+	ratingDeviation: real('rating_deviation').notNull().default(350),
+	ratingVolatility: real('rating_volatility').notNull().default(0.06),
+	createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow()
 });
+
+export const session = pgTable('session', {
+	// SHA-256 of the token stored in the session cookie
+	id: text('id').primaryKey(),
+	userId: integer('user_id')
+		.notNull()
+		.references(() => user.id, { onDelete: 'cascade' }),
+	expiresAt: timestamp('expires_at', { withTimezone: true }).notNull()
+});
+
+export const gamePhase = pgEnum('game_phase', ['opening', 'middlegame', 'endgame']);
+
+// Position bank for the guessing modes. Evaluations are stored from white's
+// perspective: exactly one of evalCp (centipawns) or evalMate (moves to mate) is set.
+export const positions = pgTable(
+	'positions',
+	{
+		id: serial('id').primaryKey(),
+		fen: text('fen').notNull().unique(),
+		evalCp: integer('eval_cp'),
+		evalMate: integer('eval_mate'),
+		depth: integer('depth').notNull(),
+		phase: gamePhase('phase').notNull(),
+		source: text('source').notNull(),
+		difficulty: integer('difficulty'),
+		// Glicko-2 rating, updated as players guess the position
+		rating: real('rating').notNull().default(1500),
+		ratingDeviation: real('rating_deviation').notNull().default(350),
+		ratingVolatility: real('rating_volatility').notNull().default(0.06),
+		createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow()
+	},
+	(table) => [index('positions_rating_idx').on(table.rating)]
+);
+
+// Player rating after every rated guess
+export const ratingHistory = pgTable(
+	'rating_history',
+	{
+		id: serial('id').primaryKey(),
+		userId: integer('user_id')
+			.notNull()
+			.references(() => user.id, { onDelete: 'cascade' }),
+		positionId: integer('position_id')
+			.notNull()
+			.references(() => positions.id, { onDelete: 'cascade' }),
+		isCorrect: boolean('is_correct').notNull(),
+		rating: real('rating').notNull(),
+		ratingDeviation: real('rating_deviation').notNull(),
+		createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow()
+	},
+	(table) => [index('rating_history_user_idx').on(table.userId, table.createdAt)]
+);
+
+// Every guess submitted in the guessing modes. Guess and engine values use the
+// same encoding as positions: centipawns or moves to mate, from white's perspective.
+export const guesses = pgTable(
+	'guesses',
+	{
+		id: serial('id').primaryKey(),
+		userId: integer('user_id')
+			.notNull()
+			.references(() => user.id, { onDelete: 'cascade' }),
+		positionId: integer('position_id')
+			.notNull()
+			.references(() => positions.id, { onDelete: 'cascade' }),
+		mode: text('mode').notNull(),
+		guessCp: integer('guess_cp'),
+		guessMate: integer('guess_mate'),
+		evalCp: integer('eval_cp'),
+		evalMate: integer('eval_mate'),
+		// Win-probability error and points awarded
+		error: real('error').notNull(),
+		points: integer('points').notNull(),
+		isCorrect: boolean('is_correct').notNull(),
+		createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow()
+	},
+	(table) => [index('guesses_user_idx').on(table.userId, table.createdAt)]
+);
+
+// Bank positions sent to a player by Streak and not guessed since. A rated guess
+// consumes its row, so each serve can be rated once.
+export const servedPositions = pgTable(
+	'served_positions',
+	{
+		id: serial('id').primaryKey(),
+		userId: integer('user_id')
+			.notNull()
+			.references(() => user.id, { onDelete: 'cascade' }),
+		positionId: integer('position_id')
+			.notNull()
+			.references(() => positions.id, { onDelete: 'cascade' }),
+		servedAt: timestamp('served_at', { withTimezone: true }).notNull().defaultNow()
+	},
+	(table) => [uniqueIndex('served_positions_user_position_idx').on(table.userId, table.positionId)]
+);
+
+// Spaced-repetition schedule (SM-2) of positions a player missed badly
+export const reviews = pgTable(
+	'reviews',
+	{
+		id: serial('id').primaryKey(),
+		userId: integer('user_id')
+			.notNull()
+			.references(() => user.id, { onDelete: 'cascade' }),
+		positionId: integer('position_id')
+			.notNull()
+			.references(() => positions.id, { onDelete: 'cascade' }),
+		easeFactor: real('ease_factor').notNull(),
+		interval: integer('interval').notNull(),
+		repetitions: integer('repetitions').notNull(),
+		dueAt: timestamp('due_at', { withTimezone: true }).notNull(),
+		updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow()
+	},
+	(table) => [
+		uniqueIndex('reviews_user_position_idx').on(table.userId, table.positionId),
+		index('reviews_user_due_idx').on(table.userId, table.dueAt)
+	]
+);
+
+// Positions of each day's daily challenge, picked once per date
+export const dailyPositions = pgTable(
+	'daily_positions',
+	{
+		id: serial('id').primaryKey(),
+		date: date('date').notNull(),
+		slot: integer('slot').notNull(),
+		positionId: integer('position_id')
+			.notNull()
+			.references(() => positions.id, { onDelete: 'cascade' })
+	},
+	(table) => [uniqueIndex('daily_positions_date_slot_idx').on(table.date, table.slot)]
+);
+
+// A player's guesses in a daily challenge, at most one per slot
+export const dailyEntries = pgTable(
+	'daily_entries',
+	{
+		id: serial('id').primaryKey(),
+		userId: integer('user_id')
+			.notNull()
+			.references(() => user.id, { onDelete: 'cascade' }),
+		date: date('date').notNull(),
+		slot: integer('slot').notNull(),
+		guessId: integer('guess_id')
+			.notNull()
+			.references(() => guesses.id, { onDelete: 'cascade' })
+	},
+	(table) => [
+		uniqueIndex('daily_entries_user_date_slot_idx').on(table.userId, table.date, table.slot),
+		index('daily_entries_date_idx').on(table.date)
+	]
+);
+
+// Engine evaluations served by /api/evaluate, keyed by normalized FEN. Same
+// encoding as positions; only the deepest search seen for a position is kept.
+export const engineEvaluations = pgTable('engine_evaluations', {
+	fen: text('fen').primaryKey(),
+	evalCp: integer('eval_cp'),
+	evalMate: integer('eval_mate'),
+	depth: integer('depth').notNull(),
+	bestMove: text('best_move'),
+	// Principal variation as space-separated UCI moves
+	pv: text('pv').notNull(),
+	updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow()
+});
+
+// A signed-in player's in-progress game against the computer, as saved by /play
+// after every move (see SavedGame in $lib/savedGame)
+export const savedGames = pgTable('saved_games', {
+	userId: integer('user_id')
+		.primaryKey()
+		.references(() => user.id, { onDelete: 'cascade' }),
+	game: jsonb('game').notNull(),
+	updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow()
+});
+
+export type User = typeof user.$inferSelect;
+export type Session = typeof session.$inferSelect;
+export type Position = typeof positions.$inferSelect;
+export type NewPosition = typeof positions.$inferInsert;
+export type RatingHistoryEntry = typeof ratingHistory.$inferSelect;
+export type Guess = typeof guesses.$inferSelect;
+export type Review = typeof reviews.$inferSelect;
+export type DailyEntry = typeof dailyEntries.$inferSelect;
+export type EngineEvaluationRow = typeof engineEvaluations.$inferSelect;
@@ -0,0 +1,155 @@
+import { describe, expect, it } from 'vitest';
+import { EnginePool, type PoolEngine } from './enginePool';
+import type { EngineEvaluation, EvaluationLimits } from './stockfish';
+
+interface Search {
+	fen: string;
+	limits: EvaluationLimits;
+	finish: (evaluation?: Partial<EngineEvaluation>) => void;
+	fail: (error: Error) => void;
+}
+
+// Engine whose searches end when the test says so; aborting stops them like Stockfish does
+class FakeEngine implements PoolEngine {
+	inits = 0;
+	quits = 0;
+
+	constructor(private searches: Search[]) {}
+
+	async init(): Promise<void> {
+		this.inits++;
+	}
+
+	evaluate(fen: string, limits: EvaluationLimits, signal?: AbortSignal): Promise<EngineEvaluation> {
+		return new Promise((resolve, reject) => {
+			const search: Search = {
+				fen,
+				limits,
+				finish: (evaluation = {}) =>
+					resolve({
+						score: { type: 'cp', value: 0 },
+						depth: limits.depth ?? 1,
+						pv: [],
+						...evaluation
+					}),
+				fail: reject
+			};
+			signal?.addEventListener('abort', () => reject(signal.reason), { once: true });
+			this.searches.push(search);
+		});
+	}
+
+	async quit(): Promise<void> {
+		this.quits++;
+	}
+}
+
+function createPool(size: number) {
+	const searches: Search[] = [];
+	const engines: FakeEngine[] = [];
+	const pool = new EnginePool(size, () => {
+		const engine = new FakeEngine(searches);
+		engines.push(engine);
+		return engine;
+	});
+	return { pool, searches, engines };
+}
+
+// Let queued promise callbacks run
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('EnginePool', () => {
+	it('runs up to its size in parallel and queues the rest in order', async () => {
+		const { pool, searches, engines } = createPool(2);
+		const results = ['a', 'b', 'c'].map((fen) => pool.evaluate(fen, { depth: 10 }));
+		await settle();
+
+		expect(searches.map((search) => search.fen)).toEqual(['a', 'b']);
+		expect(pool.pending).toBe(1);
+
+		searches[0].finish({ bestMove: 'e2e4' });
+		await settle();
+		expect(searches.map((search) => search.fen)).toEqual(['a', 'b', 'c']);
+
+		searches[1].finish();
+		searches[2].finish();
+		expect((await results[0]).bestMove).toBe('e2e4');
+		await Promise.all(results);
+
+		// The finished engine took the queued job instead of a third one starting
+		expect(engines).toHaveLength(2);
+		expect(engines.map((engine) => engine.inits)).toEqual([1, 1]);
+	});
+
+	it('passes limits to the engine', async () => {
+		const { pool, searches } = createPool(1);
+		const result = pool.evaluate('a', { depth: 12, movetime: 500 });
+		await settle();
+
+		expect(searches[0].limits).toEqual({ depth: 12, movetime: 500 });
+		searches[0].finish();
+		expect((await result).depth).toBe(12);
+	});
+
+	it('drops cancelled jobs before they start', async () => {
+		const { pool, searches } = createPool(1);
+		const abort = new AbortController();
+		const running = pool.evaluate('a', { depth: 10 });
+		const queued = pool.evaluate('b', { depth: 10 }, abort.signal);
+		await settle();
+
+		abort.abort(new Error('cancelled'));
+		await expect(queued).rejects.toThrow('cancelled');
+		expect(pool.pending).toBe(0);
+
+		searches[0].finish();
+		await running;
+		await settle();
+		expect(searches.map((search) => search.fen)).toEqual(['a']);
+	});
+
+	it('keeps the engine after cancelling a running search', async () => {
+		const { pool, searches, engines } = createPool(1);
+		const abort = new AbortController();
+		const cancelled = pool.evaluate('a', { depth: 10 }, abort.signal);
+		await settle();
+
+		abort.abort(new Error('cancelled'));
+		await expect(cancelled).rejects.toThrow('cancelled');
+
+		const next = pool.evaluate('b', { depth: 10 });
+		await settle();
+		searches[1].finish();
+		await next;
+
+		expect(engines).toHaveLength(1);
+		expect(engines[0].quits).toBe(0);
+	});
+
+	it('replaces an engine that fails', async () => {
+		const { pool, searches, engines } = createPool(1);
+		const failed = pool.evaluate('a', { depth: 10 });
+		const next = pool.evaluate('b', { depth: 10 });
+		await settle();
+
+		searches[0].fail(new Error('Engine exited'));
+		await expect(failed).rejects.toThrow('Engine exited');
+		await settle();
+
+		searches[1].finish();
+		await next;
+		expect(engines).toHaveLength(2);
+		expect(engines[0].quits).toBe(1);
+	});
+
+	it('rejects waiting jobs on shutdown', async () => {
+		const { pool, engines } = createPool(1);
+		pool.evaluate('a', { depth: 10 }).catch(() => {});
+		const queued = pool.evaluate('b', { depth: 10 });
+		await settle();
+
+		await pool.shutdown();
+		await expect(queued).rejects.toThrow('shut down');
+		expect(engines[0].quits).toBe(1);
+	});
+});
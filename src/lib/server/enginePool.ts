@@ -0,0 +1,142 @@
+import { availableParallelism } from 'node:os';
+import { NodeStockfish, type EngineEvaluation, type EvaluationLimits } from './stockfish';
+import type { FEN } from '$lib/types/chess';
+
+/** Upper bound on engines run side by side; each one is single-threaded */
+export const MAX_POOL_SIZE = 4;
+
+/** The part of NodeStockfish the pool drives */
+export type PoolEngine = Pick<NodeStockfish, 'init' | 'evaluate' | 'quit'>;
+
+interface Job {
+	fen: FEN;
+	limits: EvaluationLimits;
+	signal?: AbortSignal;
+	resolve: (evaluation: EngineEvaluation) => void;
+	reject: (reason: unknown) => void;
+	onAbort: () => void;
+}
+
+// Leave a core for the web server
+function defaultPoolSize(): number {
+	return Math.max(1, Math.min(MAX_POOL_SIZE, availableParallelism() - 1));
+}
+
+/**
+ * Fixed-size pool of Stockfish worker threads fed from a first-in, first-out queue.
+ * Engines start on first use and are reused between jobs; one that fails is
+ * replaced by a fresh instance on the next job.
+ */
+export class EnginePool {
+	private engines = new Set<PoolEngine>();
+	private idle: PoolEngine[] = [];
+	private queue: Job[] = [];
+
+	constructor(
+		private size: number = defaultPoolSize(),
+		private createEngine: () => PoolEngine = () => new NodeStockfish()
+	) {}
+
+	/**
+	 * Queue an evaluation
+	 * Aborting the signal drops the job while it waits and stops the search once it runs;
+	 * either way the promise rejects with the signal's reason.
+	 */
+	evaluate(fen: FEN, limits: EvaluationLimits, signal?: AbortSignal): Promise<EngineEvaluation> {
+		return new Promise((resolve, reject) => {
+			if (signal?.aborted) {
+				reject(signal.reason);
+				return;
+			}
+
+			const job: Job = {
+				fen,
+				limits,
+				signal,
+				resolve,
+				reject,
+				onAbort: () => {
+					const index = this.queue.indexOf(job);
+					if (index === -1) return;
+					this.queue.splice(index, 1);
+					reject(signal?.reason);
+				}
+			};
+			signal?.addEventListener('abort', job.onAbort, { once: true });
+
+			this.queue.push(job);
+			this.dispatch();
+		});
+	}
+
+	/**
+	 * Jobs waiting for an engine
+	 */
+	get pending(): number {
+		return this.queue.length;
+	}
+
+	/**
+	 * Reject waiting jobs and stop every engine, including busy ones
+	 */
+	async shutdown(): Promise<void> {
+		for (const job of this.queue.splice(0)) {
+			job.signal?.removeEventListener('abort', job.onAbort);
+			job.reject(new Error('Engine pool shut down'));
+		}
+
+		const engines = [...this.engines];
+		this.engines.clear();
+		this.idle = [];
+		await Promise.all(engines.map((engine) => engine.quit()));
+	}
+
+	// Hand queued jobs to idle engines, starting new ones up to the pool size
+	private dispatch(): void {
+		while (this.queue.length > 0) {
+			let engine = this.idle.pop();
+			const fresh = !engine;
+			if (!engine) {
+				if (this.engines.size >= this.size) return;
+				engine = this.createEngine();
+				this.engines.add(engine);
+			}
+
+			const job = this.queue.shift()!;
+			job.signal?.removeEventListener('abort', job.onAbort);
+			void this.run(engine, job, fresh);
+		}
+	}
+
+	private async run(engine: PoolEngine, job: Job, fresh: boolean): Promise<void> {
+		try {
+			if (fresh) await engine.init();
+		} catch (e) {
+			job.reject(e);
+			this.discard(engine);
+			return;
+		}
+
+		try {
+			job.resolve(await engine.evaluate(job.fen, job.limits, job.signal));
+		} catch (e) {
+			job.reject(e);
+			// A cancelled search leaves the engine ready; any other failure may not
+			if (!job.signal?.aborted) {
+				this.discard(engine);
+				return;
+			}
+		}
+
+		if (this.engines.has(engine)) this.idle.push(engine);
+		this.dispatch();
+	}
+
+	private discard(engine: PoolEngine): void {
+		this.engines.delete(engine);
+		engine.quit().catch((e) => console.error('Failed to stop engine:', e));
+		this.dispatch();
+	}
+}
+
+export const enginePool = new EnginePool();
@@ -0,0 +1,33 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { EvaluationLimits } from './stockfish';
+
+const evaluate =
+	vi.fn<(fen: string, limits: EvaluationLimits, signal?: AbortSignal) => Promise<never>>();
+
+vi.mock('./db', () => ({
+	db: { select: () => ({ from: () => ({ where: async () => [] }) }) }
+}));
+vi.mock('./enginePool', () => ({ enginePool: { evaluate } }));
+
+const { evaluatePositions } = await import('./evaluations');
+
+describe('evaluatePositions', () => {
+	it('stops the remaining searches when one fails', async () => {
+		const signals: AbortSignal[] = [];
+		evaluate.mockImplementation((fen, limits, signal) => {
+			signals.push(signal!);
+			if (signals.length === 1) return Promise.reject(new Error('Engine crashed'));
+			return new Promise((_, reject) =>
+				signal!.addEventListener('abort', () => reject(signal!.reason))
+			);
+		});
+
+		await expect(
+			evaluatePositions(['8/8/8/8/8/8/8/K6k w - - 0 1', '8/8/8/8/8/8/8/K5k1 w - - 0 1'], {
+				depth: 10
+			})
+		).rejects.toThrow('Engine crashed');
+		expect(signals).toHaveLength(2);
+		expect(signals.every((signal) => signal.aborted)).toBe(true);
+	});
+});
@@ -0,0 +1,121 @@
+import { inArray, sql } from 'drizzle-orm';
+import { db } from './db';
+import { engineEvaluations, type EngineEvaluationRow } from './db/schema';
+import { enginePool } from './enginePool';
+import type { EngineEvaluation } from './stockfish';
+import { normalizeFen } from '$lib/fen';
+import type { FEN } from '$lib/types/chess';
+
+export const DEFAULT_EVALUATION_DEPTH = 18;
+export const MAX_EVALUATION_DEPTH = 30;
+export const MAX_EVALUATION_MOVETIME = 60_000;
+/** Positions accepted in one request */
+export const MAX_EVALUATION_BATCH = 50;
+
+export interface EvaluationRequest {
+	depth: number;
+	movetime?: number; // Caps the time spent on each position, in milliseconds
+}
+
+/** One evaluated position, from white's perspective: exactly one of score or mate is set */
+export interface PositionEvaluation {
+	fen: FEN; // As requested
+	score: number | null; // Centipawns
+	mate: number | null; // Moves to mate
+	bestMove: string | null;
+	pv: string[];
+	depth: number;
+	cached: boolean;
+}
+
+/**
+ * Evaluate positions, serving cached results that are at least as deep as requested.
+ * Duplicate positions are searched once; new results are stored unless a deeper one
+ * already is.
+ */
+export async function evaluatePositions(
+	fens: FEN[],
+	request: EvaluationRequest,
+	signal?: AbortSignal
+): Promise<PositionEvaluation[]> {
+	const normalized = [...new Set(fens.map(normalizeFen))];
+	const rows = await db
+		.select()
+		.from(engineEvaluations)
+		.where(inArray(engineEvaluations.fen, normalized));
+
+	const results = new Map<FEN, Omit<PositionEvaluation, 'fen'>>();
+	for (const row of rows) {
+		if (row.depth >= request.depth) results.set(row.fen, { ...fromRow(row), cached: true });
+	}
+
+	const missing = normalized.filter((fen) => !results.has(fen));
+
+	// One failure fails the request, so stop the other searches rather than let them hold engines
+	const batch = new AbortController();
+	const cancel = () => batch.abort(signal?.reason);
+	if (signal?.aborted) cancel();
+	signal?.addEventListener('abort', cancel, { once: true });
+
+	let evaluations: EngineEvaluation[];
+	try {
+		evaluations = await Promise.all(
+			missing.map((fen) =>
+				enginePool
+					.evaluate(fen, { depth: request.depth, movetime: request.movetime }, batch.signal)
+					.catch((e) => {
+						batch.abort(e);
+						throw e;
+					})
+			)
+		);
+	} finally {
+		signal?.removeEventListener('abort', cancel);
+	}
+
+	const newRows = missing.map((fen, i) => toRow(fen, evaluations[i]));
+	for (const row of newRows) results.set(row.fen, { ...fromRow(row), cached: false });
+
+	if (newRows.length > 0) {
+		await db
+			.insert(engineEvaluations)
+			.values(newRows)
+			.onConflictDoUpdate({
+				target: engineEvaluations.fen,
+				set: {
+					evalCp: sql`excluded.eval_cp`,
+					evalMate: sql`excluded.eval_mate`,
+					depth: sql`excluded.depth`,
+					bestMove: sql`excluded.best_move`,
+					pv: sql`excluded.pv`,
+					updatedAt: sql`now()`
+				},
+				setWhere: sql`${engineEvaluations.depth} < excluded.depth`
+			});
+	}
+
+	return fens.map((fen) => ({ fen, ...results.get(normalizeFen(fen))! }));
+}
+
+function toRow(fen: FEN, evaluation: EngineEvaluation): Omit<EngineEvaluationRow, 'updatedAt'> {
+	return {
+		fen,
+		evalCp: evaluation.score.type === 'cp' ? evaluation.score.value : null,
+		evalMate: evaluation.score.type === 'mate' ? evaluation.score.value : null,
+		depth: evaluation.depth,
+		bestMove: evaluation.bestMove ?? null,
+		pv: evaluation.pv.join(' ')
+	};
+}
+
+function fromRow(
+	row: Omit<EngineEvaluationRow, 'updatedAt'>
+): Omit<PositionEvaluation, 'fen' | 'cached'> {
+	return {
+		score: row.evalCp,
+		mate: row.evalMate,
+		bestMove: row.bestMove,
+		pv: row.pv ? row.pv.split(' ') : [],
+		depth: row.depth
+	};
+}
@@ -0,0 +1,97 @@
+import type { Cookies } from '@sveltejs/kit';
+import { and, eq, isNull, lt, notExists } from 'drizzle-orm';
+import { db } from './db';
+import { guesses, user, type User } from './db/schema';
+import type { GlickoRating } from '$lib/glicko';
+
+// Cookie identifying a player who has not signed up
+const GUEST_COOKIE = 'guest_token';
+
+// Guests who have not made a guess this long after arriving are dropped
+const IDLE_GUEST_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Find the player for this request: the signed-in user, or else the guest
+ * record for this browser. Returns null for a browser that has no record yet.
+ */
+export async function getPlayer(cookies: Cookies, locals: App.Locals): Promise<User | null> {
+	if (locals.user) {
+		const [account] = await db.select().from(user).where(eq(user.id, locals.user.id));
+		if (account) return account;
+	}
+
+	const token = getGuestToken(cookies);
+	if (!token) return null;
+
+	const [existing] = await db.select().from(user).where(eq(user.guestToken, token));
+	return existing ?? null;
+}
+
+/**
+ * Find the player for this request, creating a guest record for a browser without one.
+ * Only for requests that store something for the player; pages that just show a
+ * player's data use getPlayer.
+ */
+export async function getOrCreatePlayer(cookies: Cookies, locals: App.Locals): Promise<User> {
+	const existing = await getPlayer(cookies, locals);
+	if (existing) return existing;
+
+	await pruneIdleGuests();
+
+	const guestToken = crypto.randomUUID();
+	const [created] = await db.insert(user).values({ guestToken }).returning();
+
+	cookies.set(GUEST_COOKIE, guestToken, {
+		path: '/',
+		httpOnly: true,
+		sameSite: 'lax',
+		maxAge: 60 * 60 * 24 * 365
+	});
+
+	return created;
+}
+
+// Drop guest records that never made a guess, such as ones created for crawlers;
+// their served positions go with them
+async function pruneIdleGuests(): Promise<void> {
+	const cutoff = new Date(Date.now() - IDLE_GUEST_MS);
+	await db
+		.delete(user)
+		.where(
+			and(
+				isNull(user.username),
+				lt(user.createdAt, cutoff),
+				notExists(db.select({ id: guesses.id }).from(guesses).where(eq(guesses.userId, user.id)))
+			)
+		);
+}
+
+export function getGuestToken(cookies: Cookies): string | undefined {
+	return cookies.get(GUEST_COOKIE);
+}
+
+export function clearGuestToken(cookies: Cookies): void {
+	cookies.delete(GUEST_COOKIE, { path: '/' });
+}
+
+/**
+ * Name shown to other players
+ */
+export function displayName(player: Pick<User, 'id' | 'username'>): string {
+	return player.username ?? `Guest ${player.id}`;
+}
+
+/**
+ * Glicko rating of a user or position row
+ */
+export function toGlickoRating(row: {
+	rating: number;
+	ratingDeviation: number;
+	ratingVolatility: number;
+}): GlickoRating {
+	return {
+		rating: row.rating,
+		deviation: row.ratingDeviation,
+		volatility: row.ratingVolatility
+	};
+}
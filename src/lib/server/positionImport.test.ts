@@ -0,0 +1,31 @@
+import { describe, expect, it, vi } from 'vitest';
+import { getGamePhase } from '$lib/fen';
+
+vi.mock('./db', () => ({ db: {} }));
+
+const { DEFAULT_IMPORT_OPTIONS, epdToFen, samplePositions } = await import('./positionImport');
+
+// Queen's Gambit Declined middlegame with every piece still on the board
+const MIDDLEGAME = 'r1bq1rk1/pp1nbppp/2p1pn2/3p4/2PP4/2NBPN2/PP3PPP/R1BQ1RK1 w - -';
+
+describe('EPD import', () => {
+	it('takes move counters from the hmvd and fmvn opcodes', () => {
+		expect(epdToFen(`${MIDDLEGAME} bm Qc2; hmvd 4; fmvn 18; id "qgd";`)).toBe(`${MIDDLEGAME} 4 18`);
+		expect(epdToFen(`${MIDDLEGAME} fmvn 18`)).toBe(`${MIDDLEGAME} 0 18`);
+		expect(epdToFen(`${MIDDLEGAME} bm Qc2;`)).toBe(`${MIDDLEGAME} 0 1`);
+		expect(epdToFen('8/8/8 w')).toBeNull();
+	});
+
+	it('classifies the phase from the EPD move number', () => {
+		const { positions } = samplePositions(
+			`${MIDDLEGAME} bm Qc2; fmvn 18;\n8/8/4k3/8/8/4K3/4P3/8 w - - fmvn 60;`,
+			'epd',
+			DEFAULT_IMPORT_OPTIONS
+		);
+
+		expect(positions.map((position) => getGamePhase(position.phaseFen))).toEqual([
+			'middlegame',
+			'endgame'
+		]);
+	});
+});
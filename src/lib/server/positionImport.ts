@@ -0,0 +1,231 @@
+import { Chess } from 'chess.js';
+import { inArray } from 'drizzle-orm';
+import { db } from './db';
+import { positions, type NewPosition } from './db/schema';
+import { NodeStockfish } from './stockfish';
+import { getGamePhase, normalizeFen } from '$lib/fen';
+import type { FEN } from '$lib/types/chess';
+
+export type ImportFormat = 'pgn' | 'epd';
+
+export interface ImportOptions {
+	source: string; // Stored with every position, e.g. the file name
+	depth: number; // Fixed search depth for every evaluation
+	skipPlies: number; // Opening plies to skip in each PGN game
+	sampleEvery: number; // Take every Nth ply after the opening
+	maxPerGame: number; // Upper bound on positions taken from one game
+	skipInCheck: boolean; // Skip positions where the side to move is in check
+	batchSize: number; // Positions evaluated between database writes
+}
+
+export const DEFAULT_IMPORT_OPTIONS: Omit<ImportOptions, 'source'> = {
+	depth: 18,
+	skipPlies: 16,
+	sampleEvery: 4,
+	maxPerGame: 10,
+	skipInCheck: true,
+	batchSize: 25
+};
+
+/** Deepest search an import may ask for */
+export const MAX_IMPORT_DEPTH = 30;
+
+export interface ImportProgress {
+	total: number; // Unique candidate positions found in the file
+	processed: number;
+	inserted: number;
+	existing: number; // Already in the bank, e.g. from an interrupted run
+	skipped: number; // Filtered out by the sampling rules
+	failed: number; // Unparseable games or lines
+}
+
+export interface SampledPosition {
+	fen: FEN; // Normalized
+	phaseFen: FEN; // Original FEN, move counters intact
+}
+
+/**
+ * FEN for an EPD line, or null when it has too few fields
+ * Move counters come from the hmvd and fmvn opcodes; without fmvn the position
+ * counts as move 1, which leaves its phase to the material on the board.
+ */
+export function epdToFen(line: string): FEN | null {
+	const fields = line.trim().split(/\s+/);
+	if (fields.length < 4) return null;
+
+	const operations = fields.slice(4).join(' ');
+	const halfMoves = operations.match(/(?:^|;)\s*hmvd\s+(\d+)\s*(?:;|$)/)?.[1] ?? '0';
+	const fullMove = operations.match(/(?:^|;)\s*fmvn\s+(\d+)\s*(?:;|$)/)?.[1] ?? '1';
+	return `${fields.slice(0, 4).join(' ')} ${halfMoves} ${fullMove}`;
+}
+
+/**
+ * Detect the file format from its name, falling back to its content
+ */
+export function detectFormat(fileName: string, text: string): ImportFormat {
+	if (/\.epd$/i.test(fileName)) return 'epd';
+	if (/\.pgn$/i.test(fileName)) return 'pgn';
+	return /^\s*\[/.test(text) || /\d+\.\s*[a-hKQRBNO]/.test(text) ? 'pgn' : 'epd';
+}
+
+/**
+ * Extract candidate positions from a PGN or EPD file,
+ * applying the sampling rules and removing duplicates by normalized FEN
+ */
+export function samplePositions(
+	text: string,
+	format: ImportFormat,
+	options: Omit<ImportOptions, 'source'>
+): { positions: SampledPosition[]; skipped: number; failed: number } {
+	const seen = new Map<FEN, SampledPosition>();
+	let skipped = 0;
+	let failed = 0;
+
+	const consider = (chess: Chess): boolean => {
+		if (chess.isGameOver() || (options.skipInCheck && chess.isCheck())) {
+			skipped++;
+			return false;
+		}
+
+		const fen = normalizeFen(chess.fen());
+		if (seen.has(fen)) {
+			skipped++;
+			return false;
+		}
+
+		seen.set(fen, { fen, phaseFen: chess.fen() });
+		return true;
+	};
+
+	if (format === 'epd') {
+		for (const line of text.split(/\r?\n/)) {
+			const fen = epdToFen(line);
+			if (!fen) continue;
+
+			try {
+				consider(new Chess(fen));
+			} catch {
+				failed++;
+			}
+		}
+	} else {
+		for (const game of splitPgn(text)) {
+			const chess = new Chess();
+			try {
+				chess.loadPgn(game);
+			} catch {
+				failed++;
+				continue;
+			}
+
+			const history = chess.history({ verbose: true });
+			const replay = new Chess(history[0]?.before ?? chess.fen());
+			let taken = 0;
+
+			for (let ply = 0; ply < history.length && taken < options.maxPerGame; ply++) {
+				replay.move(history[ply]);
+
+				const plyNumber = ply + 1;
+				if (plyNumber <= options.skipPlies) continue;
+				if ((plyNumber - options.skipPlies) % options.sampleEvery !== 0) continue;
+
+				if (consider(replay)) taken++;
+			}
+		}
+	}
+
+	return { positions: [...seen.values()], skipped, failed };
+}
+
+/**
+ * Evaluate sampled positions and write them into the position bank.
+ * Positions already in the bank are not evaluated again, so an
+ * interrupted import resumes where it stopped when run again.
+ */
+export async function importPositions(
+	text: string,
+	format: ImportFormat,
+	options: ImportOptions,
+	onProgress: (progress: ImportProgress) => void = () => {},
+	signal?: AbortSignal
+): Promise<ImportProgress> {
+	const sampled = samplePositions(text, format, options);
+	const progress: ImportProgress = {
+		total: sampled.positions.length,
+		processed: 0,
+		inserted: 0,
+		existing: 0,
+		skipped: sampled.skipped,
+		failed: sampled.failed
+	};
+	onProgress({ ...progress });
+
+	const engine = new NodeStockfish();
+	await engine.init();
+
+	try {
+		for (let i = 0; i < sampled.positions.length; i += options.batchSize) {
+			if (signal?.aborted) break;
+
+			const batch = sampled.positions.slice(i, i + options.batchSize);
+			const existing = await db
+				.select({ fen: positions.fen })
+				.from(positions)
+				.where(
+					inArray(
+						positions.fen,
+						batch.map((p) => p.fen)
+					)
+				);
+			const existingFens = new Set(existing.map((row) => row.fen));
+
+			const rows: NewPosition[] = [];
+			for (const position of batch) {
+				if (signal?.aborted) break;
+
+				if (existingFens.has(position.fen)) {
+					progress.existing++;
+				} else {
+					const evaluation = await engine.evaluate(position.fen, { depth: options.depth });
+					rows.push({
+						fen: position.fen,
+						evalCp: evaluation.score.type === 'cp' ? evaluation.score.value : null,
+						evalMate: evaluation.score.type === 'mate' ? evaluation.score.value : null,
+						depth: evaluation.depth,
+						phase: getGamePhase(position.phaseFen),
+						source: options.source
+					});
+				}
+
+				progress.processed++;
+				onProgress({ ...progress });
+			}
+
+			if (rows.length > 0) {
+				const inserted = await db
+					.insert(positions)
+					.values(rows)
+					.onConflictDoNothing({ target: positions.fen })
+					.returning({ id: positions.id });
+				progress.inserted += inserted.length;
+				progress.existing += rows.length - inserted.length;
+				onProgress({ ...progress });
+			}
+		}
+	} finally {
+		await engine.quit();
+	}
+
+	return progress;
+}
+
+/**
+ * Split a multi-game PGN file into individual games
+ */
+function splitPgn(text: string): string[] {
+	return text
+		.replace(/\r\n/g, '\n')
+		.split(/\n\s*\n(?=\s*\[)/)
+		.map((game) => game.trim())
+		.filter((game) => game.length > 0);
+}
@@ -0,0 +1,107 @@
+import { and, notInArray, sql } from 'drizzle-orm';
+import { db } from './db';
+import { positions, servedPositions, type Position } from './db/schema';
+import type { StreakPosition } from '$lib/streakManager';
+
+// Rating distances tried, in order, when matching positions to a player
+const RATING_WINDOWS = [100, 200, 400, 800];
+
+/**
+ * Draw random positions from the bank, skipping the given ids.
+ * Falls back to the whole bank once every position has been seen.
+ */
+export async function getRandomPositions(
+	count: number,
+	excludeIds: number[] = []
+): Promise<StreakPosition[]> {
+	let rows = await db
+		.select()
+		.from(positions)
+		.where(excludeIds.length > 0 ? notInArray(positions.id, excludeIds) : undefined)
+		.orderBy(sql`random()`)
+		.limit(count);
+
+	if (rows.length === 0 && excludeIds.length > 0) {
+		rows = await db
+			.select()
+			.from(positions)
+			.orderBy(sql`random()`)
+			.limit(count);
+	}
+
+	return rows.map(toStreakPosition);
+}
+
+/**
+ * Draw random positions rated close to the player, skipping the given ids.
+ * The rating window widens until enough positions are found.
+ */
+export async function getPositionsNearRating(
+	rating: number,
+	count: number,
+	excludeIds: number[] = []
+): Promise<StreakPosition[]> {
+	const unseen = excludeIds.length > 0 ? notInArray(positions.id, excludeIds) : undefined;
+
+	for (const window of RATING_WINDOWS) {
+		const rows = await db
+			.select()
+			.from(positions)
+			.where(and(unseen, sql`abs(${positions.rating} - ${rating}) <= ${window}`))
+			.orderBy(sql`random()`)
+			.limit(count);
+
+		if (rows.length >= count) return rows.map(toStreakPosition);
+	}
+
+	// Not enough positions in any window: take the closest ones
+	let rows = await db
+		.select()
+		.from(positions)
+		.where(unseen)
+		.orderBy(sql`abs(${positions.rating} - ${rating})`)
+		.limit(count);
+
+	if (rows.length === 0 && excludeIds.length > 0) {
+		rows = await db
+			.select()
+			.from(positions)
+			.orderBy(sql`abs(${positions.rating} - ${rating})`)
+			.limit(count);
+	}
+
+	return rows.map(toStreakPosition);
+}
+
+/**
+ * Record that positions were sent to a player, so one guess on each can be rated
+ */
+export async function markServed(userId: number, positionIds: number[]): Promise<void> {
+	if (positionIds.length === 0) return;
+
+	await db
+		.insert(servedPositions)
+		.values(positionIds.map((positionId) => ({ userId, positionId })))
+		.onConflictDoUpdate({
+			target: [servedPositions.userId, servedPositions.positionId],
+			set: { servedAt: sql`now()` }
+		});
+}
+
+/**
+ * Convert a bank row into the shape sent to the client
+ */
+export function toStreakPosition(row: Position): StreakPosition {
+	return {
+		id: row.id,
+		fen: row.fen,
+		score:
+			row.evalMate !== null
+				? { type: 'mate', value: row.evalMate }
+				: { type: 'cp', value: row.evalCp ?? 0 },
+		depth: row.depth,
+		phase: row.phase,
+		difficulty: row.difficulty,
+		rating: Math.round(row.rating)
+	};
+}
@@ -0,0 +1,140 @@
+import { and, desc, eq } from 'drizzle-orm';
+import { db } from './db';
+import { guesses, positions, ratingHistory, servedPositions, user, type User } from './db/schema';
+import { toGlickoRating } from './player';
+import { toStreakPosition } from './positions';
+import { getReview, updateReview } from './reviews';
+import { qualityFromError } from '$lib/review';
+import { rateGame } from '$lib/glicko';
+import {
+	parseGuess,
+	scoreGuess,
+	toEvaluationScore,
+	type EvalGuess,
+	type GuessScore
+} from '$lib/scoring';
+import type { StreakMode } from '$lib/streakManager';
+
+export interface RatedGuess {
+	score: GuessScore;
+	rating: number;
+	ratingChange: number;
+	positionRating: number;
+	isReview: boolean; // Reviews are not rated
+}
+
+/**
+ * Score a guess on the server, store it, reschedule its review, and update the
+ * player's and the position's ratings
+ * Only positions served to the player count, once per serve; returns null otherwise
+ */
+export async function recordRatedGuess(
+	player: User,
+	positionId: number,
+	guess: EvalGuess,
+	mode: StreakMode = 'classic'
+): Promise<RatedGuess | null> {
+	return db.transaction(async (tx) => {
+		const [served] = await tx
+			.delete(servedPositions)
+			.where(and(eq(servedPositions.userId, player.id), eq(servedPositions.positionId, positionId)))
+			.returning({ id: servedPositions.id });
+		if (!served) return null;
+
+		const [row] = await tx
+			.select()
+			.from(positions)
+			.where(eq(positions.id, positionId))
+			.for('update');
+		if (!row) return null;
+
+		// Re-read the player inside the transaction so concurrent guesses are not lost
+		const [current] = await tx.select().from(user).where(eq(user.id, player.id)).for('update');
+		const before = current ?? player;
+
+		const position = toStreakPosition(row);
+		const parsedGuess = parseGuess(guess);
+		const score = scoreGuess(parsedGuess, toEvaluationScore(position.score));
+
+		await tx.insert(guesses).values({
+			userId: player.id,
+			positionId: row.id,
+			mode,
+			guessCp: parsedGuess.isMate ? null : Math.round(parsedGuess.score * 100),
+			guessMate: parsedGuess.isMate ? parsedGuess.mateIn : null,
+			evalCp: row.evalCp,
+			evalMate: row.evalMate,
+			error: score.error,
+			points: score.points,
+			isCorrect: score.isCorrect
+		});
+
+		// Positions in the review queue have been seen before, so they are rescheduled but not rated
+		const review = await getReview(player.id, row.id, tx);
+		await updateReview(player.id, row.id, qualityFromError(score.error), review, tx);
+		if (review) {
+			return {
+				score,
+				rating: Math.round(before.rating),
+				ratingChange: 0,
+				positionRating: position.rating,
+				isReview: true
+			};
+		}
+
+		const updated = rateGame(toGlickoRating(before), toGlickoRating(row), score.isCorrect ? 1 : 0);
+
+		await tx
+			.update(user)
+			.set({
+				rating: updated.player.rating,
+				ratingDeviation: updated.player.deviation,
+				ratingVolatility: updated.player.volatility
+			})
+			.where(eq(user.id, player.id));
+
+		await tx
+			.update(positions)
+			.set({
+				rating: updated.position.rating,
+				ratingDeviation: updated.position.deviation,
+				ratingVolatility: updated.position.volatility
+			})
+			.where(eq(positions.id, row.id));
+
+		await tx.insert(ratingHistory).values({
+			userId: player.id,
+			positionId: row.id,
+			isCorrect: score.isCorrect,
+			rating: updated.player.rating,
+			ratingDeviation: updated.player.deviation
+		});
+
+		return {
+			score,
+			rating: Math.round(updated.player.rating),
+			ratingChange: Math.round(updated.player.rating - before.rating),
+			positionRating: Math.round(updated.position.rating),
+			isReview: false
+		};
+	});
+}
+
+/**
+ * Most recent rating history of a player, oldest first
+ */
+export async function getRatingHistory(userId: number, limit: number = 200) {
+	const rows = await db
+		.select({
+			rating: ratingHistory.rating,
+			ratingDeviation: ratingHistory.ratingDeviation,
+			isCorrect: ratingHistory.isCorrect,
+			createdAt: ratingHistory.createdAt
+		})
+		.from(ratingHistory)
+		.where(eq(ratingHistory.userId, userId))
+		.orderBy(desc(ratingHistory.createdAt))
+		.limit(limit);
+
+	return rows.reverse();
+}
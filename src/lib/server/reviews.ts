@@ -0,0 +1,82 @@
+import { and, asc, count, eq, lte, notInArray } from 'drizzle-orm';
+import { db } from './db';
+import { positions, reviews, type Review } from './db/schema';
+import { toStreakPosition } from './positions';
+import { BAD_MISS_QUALITY, scheduleReview, type ReviewQuality } from '$lib/review';
+import type { StreakPosition } from '$lib/streakManager';
+
+// Database or transaction handle
+type Executor = Pick<typeof db, 'select' | 'insert' | 'update'>;
+
+/**
+ * Positions due for review, most overdue first
+ */
+export async function getDueReviews(
+	userId: number,
+	limit: number,
+	excludeIds: number[] = []
+): Promise<StreakPosition[]> {
+	const rows = await db
+		.select({ position: positions })
+		.from(reviews)
+		.innerJoin(positions, eq(reviews.positionId, positions.id))
+		.where(
+			and(
+				eq(reviews.userId, userId),
+				lte(reviews.dueAt, new Date()),
+				excludeIds.length > 0 ? notInArray(reviews.positionId, excludeIds) : undefined
+			)
+		)
+		.orderBy(asc(reviews.dueAt))
+		.limit(limit);
+
+	return rows.map(({ position }) => ({ ...toStreakPosition(position), isReview: true }));
+}
+
+export async function countDueReviews(userId: number): Promise<number> {
+	const [result] = await db
+		.select({ count: count() })
+		.from(reviews)
+		.where(and(eq(reviews.userId, userId), lte(reviews.dueAt, new Date())));
+	return result?.count ?? 0;
+}
+
+/**
+ * The player's review card for a position, if it is in the queue
+ */
+export async function getReview(
+	userId: number,
+	positionId: number,
+	executor: Executor = db
+): Promise<Review | undefined> {
+	const [review] = await executor
+		.select()
+		.from(reviews)
+		.where(and(eq(reviews.userId, userId), eq(reviews.positionId, positionId)));
+	return review;
+}
+
+/**
+ * Reschedule a position after a guess. Positions not yet in the queue are only
+ * added when the guess was a bad miss.
+ */
+export async function updateReview(
+	userId: number,
+	positionId: number,
+	quality: ReviewQuality,
+	existing: Review | undefined,
+	executor: Executor = db
+): Promise<void> {
+	if (!existing && quality > BAD_MISS_QUALITY) return;
+
+	const card = scheduleReview(existing ?? null, quality);
+
+	if (existing) {
+		await executor
+			.update(reviews)
+			.set({ ...card, updatedAt: new Date() })
+			.where(eq(reviews.id, existing.id));
+	} else {
+		await executor.insert(reviews).values({ userId, positionId, ...card });
+	}
+}
@@ -0,0 +1,29 @@
+import { eq } from 'drizzle-orm';
+import { db } from './db';
+import { savedGames } from './db/schema';
+import { isSavedGame, type SavedGame } from '$lib/savedGame';
+
+/**
+ * The player's in-progress game, or null
+ */
+export async function getSavedGame(userId: number): Promise<SavedGame | null> {
+	const [row] = await db.select().from(savedGames).where(eq(savedGames.userId, userId));
+	return row && isSavedGame(row.game) ? row.game : null;
+}
+
+/**
+ * Store the player's in-progress game, replacing the previous one
+ */
+export async function saveGame(userId: number, game: SavedGame): Promise<void> {
+	await db
+		.insert(savedGames)
+		.values({ userId, game })
+		.onConflictDoUpdate({
+			target: savedGames.userId,
+			set: { game, updatedAt: new Date() }
+		});
+}
+
+export async function deleteSavedGame(userId: number): Promise<void> {
+	await db.delete(savedGames).where(eq(savedGames.userId, userId));
+}
@@ -0,0 +1,90 @@
+import { asc, eq } from 'drizzle-orm';
+import { db } from './db';
+import { guesses, positions } from './db/schema';
+import type { CalibrationGuess } from '$lib/calibration';
+import type { MoveScore } from '$lib/uciParser';
+
+/**
+ * All stored guesses of a player with their positions, oldest first
+ */
+export async function getPlayerGuesses(userId: number): Promise<CalibrationGuess[]> {
+	const rows = await db
+		.select({
+			positionId: guesses.positionId,
+			fen: positions.fen,
+			phase: positions.phase,
+			mode: guesses.mode,
+			guessCp: guesses.guessCp,
+			guessMate: guesses.guessMate,
+			evalCp: guesses.evalCp,
+			evalMate: guesses.evalMate,
+			error: guesses.error,
+			points: guesses.points,
+			isCorrect: guesses.isCorrect,
+			createdAt: guesses.createdAt
+		})
+		.from(guesses)
+		.innerJoin(positions, eq(guesses.positionId, positions.id))
+		.where(eq(guesses.userId, userId))
+		.orderBy(asc(guesses.createdAt));
+
+	return rows.map((row) => ({
+		positionId: row.positionId,
+		fen: row.fen,
+		phase: row.phase,
+		mode: row.mode,
+		guess: toMoveScore(row.guessCp, row.guessMate),
+		engine: toMoveScore(row.evalCp, row.evalMate),
+		error: row.error,
+		points: row.points,
+		isCorrect: row.isCorrect,
+		createdAt: row.createdAt
+	}));
+}
+
+/**
+ * One CSV row per guess; evaluations in pawns, or "M3"/"-M3" for mates
+ */
+export function guessesToCsv(rows: CalibrationGuess[]): string {
+	const header = [
+		'date',
+		'position_id',
+		'fen',
+		'phase',
+		'mode',
+		'guess',
+		'engine',
+		'error',
+		'points',
+		'correct'
+	];
+	const lines = rows.map((row) =>
+		[
+			row.createdAt.toISOString(),
+			row.positionId,
+			row.fen,
+			row.phase,
+			row.mode,
+			formatScore(row.guess),
+			formatScore(row.engine),
+			row.error.toFixed(4),
+			row.points,
+			row.isCorrect
+		].join(',')
+	);
+	return [header.join(','), ...lines].join('\n') + '\n';
+}
+
+/**
+ * Stored centipawn/mate columns as a score
+ */
+export function toMoveScore(cp: number | null, mate: number | null): MoveScore {
+	return mate !== null ? { type: 'mate', value: mate } : { type: 'cp', value: cp ?? 0 };
+}
+
+function formatScore(score: MoveScore): string {
+	if (score.type === 'mate') {
+		return score.value < 0 ? `-M${-score.value}` : `M${score.value}`;
+	}
+	return (score.value / 100).toFixed(2);
+}
@@ -0,0 +1,178 @@
+import { Worker } from 'node:worker_threads';
+import { resolve } from 'node:path';
+import { UCIParser, type MoveScore } from '$lib/uciParser';
+import { isBlackToMove } from '$lib/fen';
+import type { FEN } from '$lib/types/chess';
+
+/** Bundled browser build of Stockfish, reused under Node */
+export const STOCKFISH_PATH = resolve('static/stockfish.js');
+
+// The bundled engine is a Web Worker script: it reports through a global
+// postMessage and reads commands from a global onmessage. Running it as a
+// classic script inside a worker thread provides both.
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require('node:worker_threads');
+const { readFileSync } = require('node:fs');
+const { runInThisContext } = require('node:vm');
+globalThis.postMessage = (line) => parentPort.postMessage(line);
+globalThis.close = () => process.exit(0);
+runInThisContext(readFileSync(workerData.enginePath, 'utf8'), { filename: workerData.enginePath });
+parentPort.on('message', (command) => globalThis.onmessage({ data: command }));
+`;
+
+/** Search limits for one evaluation; the search ends at whichever is reached first */
+export interface EvaluationLimits {
+	depth?: number;
+	movetime?: number; // Milliseconds
+}
+
+export interface EngineEvaluation {
+	score: MoveScore; // White's perspective
+	depth: number;
+	bestMove?: string;
+	pv: string[];
+}
+
+/**
+ * Single Stockfish instance running in a Node worker thread
+ */
+export class NodeStockfish {
+	private worker: Worker | null = null;
+	private listeners = new Set<(line: string) => void>();
+
+	constructor(private enginePath: string = STOCKFISH_PATH) {}
+
+	/**
+	 * Start the engine and wait for the UCI handshake
+	 */
+	async init(): Promise<void> {
+		if (this.worker) return;
+
+		this.worker = new Worker(WORKER_SOURCE, {
+			eval: true,
+			workerData: { enginePath: this.enginePath }
+		});
+		this.worker.on('message', (line: unknown) => {
+			if (typeof line !== 'string') return;
+			for (const listener of this.listeners) listener(line);
+		});
+
+		this.send('uci');
+		await this.waitFor((line) => line === 'uciok');
+		await this.isReady();
+	}
+
+	/**
+	 * Send a raw UCI command
+	 */
+	send(command: string): void {
+		if (!this.worker) throw new Error('Engine not initialized');
+		this.worker.postMessage(command);
+	}
+
+	/**
+	 * Wait until the engine has processed all previous commands
+	 */
+	async isReady(): Promise<void> {
+		this.send('isready');
+		await this.waitFor((line) => line === 'readyok');
+	}
+
+	/**
+	 * Evaluate a position within the given limits
+	 * Aborting the signal stops the search and rejects with the signal's reason
+	 * once the engine has settled, so the instance can be reused right away.
+	 */
+	async evaluate(
+		fen: FEN,
+		limits: EvaluationLimits,
+		signal?: AbortSignal
+	): Promise<EngineEvaluation> {
+		signal?.throwIfAborted();
+		const go = goCommand(limits);
+
+		const parser = new UCIParser();
+		parser.setSideToMove(isBlackToMove(fen));
+
+		const onInfo = (line: string) => {
+			if (line.startsWith('info ')) parser.parseInfo(line);
+		};
+		const onAbort = () => this.send('stop');
+		this.listeners.add(onInfo);
+
+		try {
+			this.send(`position fen ${fen}`);
+			const done = this.waitFor((line) => line.startsWith('bestmove'));
+			this.send(go);
+			signal?.addEventListener('abort', onAbort, { once: true });
+
+			const bestMoveLine = await done;
+			signal?.throwIfAborted();
+			const snapshot = parser.handleBestMove(bestMoveLine);
+
+			// The main line is the deepest multipv 1 entry
+			let main: { score: MoveScore; depth: number; pv?: string[] } | undefined;
+			for (const analysis of snapshot.moves.values()) {
+				if ((analysis.multipv ?? 1) !== 1) continue;
+				if (!main || analysis.depth > main.depth) main = analysis;
+			}
+
+			// No legal moves: mated or stalemated
+			const score: MoveScore = main?.score ?? { type: 'cp', value: 0 };
+			const sign = isBlackToMove(fen) ? -1 : 1;
+			const bestMove = bestMoveLine.split(/\s+/)[1];
+
+			return {
+				score: { type: score.type, value: score.value * sign },
+				depth: main?.depth ?? 0,
+				bestMove: bestMove && bestMove !== '(none)' ? bestMove : undefined,
+				pv: main?.pv ?? []
+			};
+		} finally {
+			this.listeners.delete(onInfo);
+			signal?.removeEventListener('abort', onAbort);
+		}
+	}
+
+	/**
+	 * Stop the engine
+	 */
+	async quit(): Promise<void> {
+		if (!this.worker) return;
+		await this.worker.terminate();
+		this.worker = null;
+		this.listeners.clear();
+	}
+
+	private waitFor(predicate: (line: string) => boolean): Promise<string> {
+		return new Promise((resolve, reject) => {
+			const worker = this.worker;
+			if (!worker) {
+				reject(new Error('Engine not initialized'));
+				return;
+			}
+
+			const onExit = () => {
+				this.listeners.delete(listener);
+				reject(new Error('Engine exited'));
+			};
+			const listener = (line: string) => {
+				if (!predicate(line)) return;
+				this.listeners.delete(listener);
+				worker.off('exit', onExit);
+				resolve(line);
+			};
+
+			this.listeners.add(listener);
+			worker.once('exit', onExit);
+		});
+	}
+}
+
+function goCommand(limits: EvaluationLimits): string {
+	const parts = ['go'];
+	if (limits.depth !== undefined) parts.push(`depth ${limits.depth}`);
+	if (limits.movetime !== undefined) parts.push(`movetime ${limits.movetime}`);
+	if (parts.length === 1) throw new Error('Evaluation needs a depth or movetime limit');
+	return parts.join(' ');
+}
@@ -0,0 +1,149 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { RoomView } from '$lib/types/versus';
+
+vi.mock('./positions', () => ({
+	getRandomPositions: vi.fn(async (count: number) =>
+		Array.from({ length: count }, (_, i) => ({
+			id: i + 1,
+			fen: `8/8/8/8/8/8/8/K6k w - - 0 ${i + 1}`,
+			score: { type: 'cp', value: 100 },
+			depth: 18,
+			phase: 'endgame',
+			difficulty: null,
+			rating: 1500
+		}))
+	)
+}));
+
+const insertedGuesses = vi.fn();
+vi.mock('./db', () => ({
+	db: { insert: () => ({ values: async (rows: unknown) => insertedGuesses(rows) }) }
+}));
+
+const { Room, TOTAL_ROUNDS } = await import('./versus');
+
+// Start a match between players 1 and 2 and collect what each of them is sent
+async function startMatch() {
+	const room = new Room('TEST1');
+	const views = new Map<number, RoomView[]>([
+		[1, []],
+		[2, []]
+	]);
+
+	room.join(1, 'One');
+	const disconnectOne = room.connect(1, (view) => views.get(1)!.push(view));
+	room.join(2, 'Two');
+	const disconnectTwo = room.connect(2, (view) => views.get(2)!.push(view));
+	await vi.advanceTimersByTimeAsync(0);
+
+	const latest = (playerId: number) => views.get(playerId)!.at(-1)!;
+	return { room, latest, disconnectOne, disconnectTwo };
+}
+
+describe('Room', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('waits for a second player', () => {
+		const room = new Room('TEST1');
+		room.join(1, 'One');
+		expect(room.viewFor(1)).toMatchObject({ phase: 'waiting', opponent: null, fen: null });
+	});
+
+	it('refuses a third player', () => {
+		const room = new Room('TEST1');
+		expect(room.join(1, 'One')).toBe(true);
+		expect(room.join(2, 'Two')).toBe(true);
+		expect(room.join(3, 'Three')).toBe(false);
+		expect(room.join(1, 'One')).toBe(true);
+	});
+
+	it('shows both players the same position after the countdown', async () => {
+		const { latest } = await startMatch();
+		expect(latest(1)).toMatchObject({ phase: 'countdown', round: 1, fen: null });
+
+		await vi.advanceTimersByTimeAsync(3000);
+		expect(latest(1).phase).toBe('guessing');
+		expect(latest(1).fen).not.toBeNull();
+		expect(latest(1).fen).toBe(latest(2).fen);
+	});
+
+	it('gives the round to the closer guess and hides guesses until the reveal', async () => {
+		const { room, latest } = await startMatch();
+		await vi.advanceTimersByTimeAsync(3000);
+
+		expect(room.submitGuess(1, 1.2)).toBe(true);
+		expect(room.submitGuess(1, 3)).toBe(false);
+		expect(latest(2)).toMatchObject({ phase: 'guessing', lastRound: null });
+		expect(latest(2).opponent?.hasGuessed).toBe(true);
+
+		room.submitGuess(2, -2);
+		expect(latest(1).phase).toBe('reveal');
+		expect(latest(1).lastRound).toMatchObject({ winner: 'you', yourGuess: { score: 1.2 } });
+		expect(latest(2).lastRound).toMatchObject({
+			winner: 'opponent',
+			opponentGuess: { score: 1.2 }
+		});
+		expect(latest(1).you.score).toBe(1);
+	});
+
+	it("records each player's guess in their history", async () => {
+		const { room } = await startMatch();
+		await vi.advanceTimersByTimeAsync(3000);
+
+		room.submitGuess(1, 1.2);
+		await vi.advanceTimersByTimeAsync(30 * 1000);
+
+		expect(insertedGuesses).toHaveBeenLastCalledWith([
+			expect.objectContaining({
+				userId: 1,
+				positionId: 1,
+				mode: 'versus',
+				guessCp: 120,
+				evalCp: 100
+			})
+		]);
+	});
+
+	it('finishes after the last round and declares a winner', async () => {
+		const { room, latest } = await startMatch();
+
+		for (let round = 0; round < TOTAL_ROUNDS; round++) {
+			await vi.advanceTimersByTimeAsync(3000);
+			room.submitGuess(1, 1);
+			room.submitGuess(2, 5);
+			await vi.advanceTimersByTimeAsync(6000);
+		}
+
+		expect(latest(1)).toMatchObject({ phase: 'finished', winner: 'you', forfeit: false });
+		expect(latest(2)).toMatchObject({ phase: 'finished', winner: 'opponent' });
+		expect(room.rematch(2)).toBe(true);
+	});
+
+	it('forfeits a player who stays disconnected', async () => {
+		const { room, latest, disconnectTwo } = await startMatch();
+		disconnectTwo();
+		expect(latest(1).opponent?.connected).toBe(false);
+
+		await vi.advanceTimersByTimeAsync(60 * 1000);
+		expect(room.viewFor(1)).toMatchObject({ phase: 'finished', winner: 'you', forfeit: true });
+	});
+
+	it('keeps the match going when a player reconnects in time', async () => {
+		const { room, disconnectTwo } = await startMatch();
+		disconnectTwo();
+		await vi.advanceTimersByTimeAsync(5000);
+
+		const views: RoomView[] = [];
+		room.connect(2, (view) => views.push(view));
+		expect(views[0].phase).not.toBe('finished');
+
+		await vi.advanceTimersByTimeAsync(60 * 1000);
+		expect(room.viewFor(2).forfeit).toBe(false);
+	});
+});
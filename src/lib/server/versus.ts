@@ -0,0 +1,406 @@
+import { db } from './db';
+import { guesses } from './db/schema';
+import { getRandomPositions } from './positions';
+import {
+	parseGuess,
+	scoreGuess,
+	toEvaluationScore,
+	type EvalGuess,
+	type GuessScore
+} from '$lib/scoring';
+import type { StreakPosition } from '$lib/streakManager';
+import type { EvaluationScore } from '$lib/types/chess';
+import type { RoomPhase, RoomPlayerView, RoomView } from '$lib/types/versus';
+
+export const TOTAL_ROUNDS = 5;
+
+// Phase durations
+const COUNTDOWN_MS = 3 * 1000;
+const ROUND_MS = 30 * 1000;
+const REVEAL_MS = 6 * 1000;
+
+// How long a player may stay disconnected mid-match before forfeiting
+const DISCONNECT_GRACE_MS = 30 * 1000;
+
+// Rooms nobody is connected to are dropped after this long
+const ROOM_TTL_MS = 10 * 60 * 1000;
+
+// Room codes avoid characters that are easy to confuse (0/O, 1/I)
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 5;
+
+type RoomListener = (view: RoomView) => void;
+
+interface RoomPlayer {
+	id: number;
+	name: string;
+	score: number;
+	guess: EvaluationScore | null;
+	listeners: Set<RoomListener>; // One per open event stream
+	disconnectTimer?: ReturnType<typeof setTimeout>;
+}
+
+interface RoundResult {
+	round: number;
+	position: StreakPosition;
+	engine: EvaluationScore;
+	guesses: Map<number, EvaluationScore | null>;
+	winnerId: number | null; // null for a draw
+}
+
+/**
+ * A head-to-head match between two players.
+ * Phases: waiting -> (countdown -> guessing -> reveal) x rounds -> finished.
+ * Every state change is pushed to the players' listeners.
+ */
+export class Room {
+	readonly code: string;
+	private phase: RoomPhase = 'waiting';
+	private players: RoomPlayer[] = [];
+	private positions: StreakPosition[] = [];
+	private round: number = 0;
+	private phaseEndsAt: number | null = null;
+	private timer?: ReturnType<typeof setTimeout>;
+	private lastRound: RoundResult | null = null;
+	private forfeitedBy: number | null = null;
+	private isStarting: boolean = false; // Positions are being drawn for a new match
+	private lastActivity: number = Date.now();
+
+	constructor(code: string) {
+		this.code = code;
+	}
+
+	hasPlayer(playerId: number): boolean {
+		return this.players.some((p) => p.id === playerId);
+	}
+
+	/**
+	 * Add a player to the room, starting the match once both seats are taken
+	 * Returns false when the room is full
+	 */
+	join(playerId: number, name: string): boolean {
+		if (this.hasPlayer(playerId)) return true;
+		if (this.players.length >= 2) return false;
+
+		this.players.push({ id: playerId, name, score: 0, guess: null, listeners: new Set() });
+		this.lastActivity = Date.now();
+
+		if (this.players.length === 2) {
+			void this.startMatch();
+		} else {
+			this.broadcast();
+		}
+		return true;
+	}
+
+	/**
+	 * Attach a listener for a player's event stream and send the current state
+	 * Returns a function that detaches it again
+	 */
+	connect(playerId: number, listener: RoomListener): () => void {
+		const player = this.getPlayer(playerId);
+		if (!player) return () => {};
+
+		player.listeners.add(listener);
+		clearTimeout(player.disconnectTimer);
+		player.disconnectTimer = undefined;
+		this.lastActivity = Date.now();
+		this.broadcast();
+
+		return () => {
+			if (!player.listeners.delete(listener)) return;
+			this.lastActivity = Date.now();
+
+			// Give the player a chance to reconnect before forfeiting
+			if (player.listeners.size === 0 && this.isInProgress()) {
+				player.disconnectTimer = setTimeout(() => this.forfeit(playerId), DISCONNECT_GRACE_MS);
+			}
+			this.broadcast();
+		};
+	}
+
+	/**
+	 * Lock in a player's guess for the current round
+	 * Returns false when guesses are not being accepted
+	 */
+	submitGuess(playerId: number, guess: EvalGuess): boolean {
+		const player = this.getPlayer(playerId);
+		if (!player || this.phase !== 'guessing' || player.guess) return false;
+
+		player.guess = parseGuess(guess);
+		this.lastActivity = Date.now();
+
+		if (this.players.every((p) => p.guess)) {
+			this.endRound();
+		} else {
+			this.broadcast();
+		}
+		return true;
+	}
+
+	/**
+	 * Start a new match with the same players once the last one is over
+	 */
+	rematch(playerId: number): boolean {
+		if (!this.hasPlayer(playerId) || this.phase !== 'finished' || this.players.length < 2) {
+			return false;
+		}
+
+		void this.startMatch();
+		return true;
+	}
+
+	/**
+	 * Whether nobody has been connected for a while
+	 */
+	isIdle(now: number = Date.now()): boolean {
+		const connected = this.players.some((p) => p.listeners.size > 0);
+		return !connected && now - this.lastActivity > ROOM_TTL_MS;
+	}
+
+	dispose(): void {
+		clearTimeout(this.timer);
+		for (const player of this.players) {
+			clearTimeout(player.disconnectTimer);
+		}
+	}
+
+	/**
+	 * Room state from one player's point of view
+	 */
+	viewFor(playerId: number): RoomView {
+		const you = this.getPlayer(playerId);
+		const opponent = this.players.find((p) => p.id !== playerId);
+		const showPosition = this.phase === 'guessing' || this.phase === 'reveal';
+
+		let winner: RoomView['winner'] = null;
+		if (this.phase === 'finished') {
+			const winnerId = this.matchWinnerId();
+			winner = winnerId === null ? 'draw' : winnerId === playerId ? 'you' : 'opponent';
+		}
+
+		return {
+			code: this.code,
+			phase: this.phase,
+			round: this.round,
+			totalRounds: this.positions.length || TOTAL_ROUNDS,
+			you: you ? this.playerView(you) : { name: '', connected: false, score: 0, hasGuessed: false },
+			opponent: opponent ? this.playerView(opponent) : null,
+			fen: showPosition ? (this.positions[this.round - 1]?.fen ?? null) : null,
+			phaseEndsIn: this.phaseEndsAt !== null ? Math.max(0, this.phaseEndsAt - Date.now()) : null,
+			lastRound: this.lastRound
+				? {
+						round: this.lastRound.round,
+						fen: this.lastRound.position.fen,
+						engine: this.lastRound.engine,
+						yourGuess: this.lastRound.guesses.get(playerId) ?? null,
+						opponentGuess: opponent ? (this.lastRound.guesses.get(opponent.id) ?? null) : null,
+						winner:
+							this.lastRound.winnerId === null
+								? 'draw'
+								: this.lastRound.winnerId === playerId
+									? 'you'
+									: 'opponent'
+					}
+				: null,
+			winner,
+			forfeit: this.forfeitedBy !== null
+		};
+	}
+
+	private async startMatch(): Promise<void> {
+		if (this.isStarting) return;
+		this.isStarting = true;
+
+		clearTimeout(this.timer);
+		for (const player of this.players) {
+			player.score = 0;
+			player.guess = null;
+		}
+		this.round = 0;
+		this.lastRound = null;
+		this.forfeitedBy = null;
+
+		try {
+			this.positions = await getRandomPositions(TOTAL_ROUNDS);
+		} catch (e) {
+			console.error(`Failed to load positions for room ${this.code}:`, e);
+			this.positions = [];
+		} finally {
+			this.isStarting = false;
+		}
+
+		if (this.positions.length === 0) {
+			this.finish();
+			return;
+		}
+		this.startCountdown();
+	}
+
+	private startCountdown(): void {
+		this.round++;
+		for (const player of this.players) {
+			player.guess = null;
+		}
+		this.setPhase('countdown', COUNTDOWN_MS, () => this.startGuessing());
+	}
+
+	private startGuessing(): void {
+		this.setPhase('guessing', ROUND_MS, () => this.endRound());
+	}
+
+	private endRound(): void {
+		const position = this.positions[this.round - 1];
+		const engine = toEvaluationScore(position.score);
+
+		// Closest guess on the win-probability scale wins; no guess loses
+		const scores = this.players.map((p) => (p.guess ? scoreGuess(p.guess, engine) : null));
+		const errors = scores.map((score) => score?.error ?? Number.POSITIVE_INFINITY);
+		let winnerId: number | null = null;
+		if (errors[0] < errors[1]) winnerId = this.players[0].id;
+		if (errors[1] < errors[0]) winnerId = this.players[1].id;
+
+		const winner = this.getPlayer(winnerId);
+		if (winner) winner.score++;
+
+		this.lastRound = {
+			round: this.round,
+			position,
+			engine,
+			guesses: new Map(this.players.map((p) => [p.id, p.guess])),
+			winnerId
+		};
+		void this.recordGuesses(position, scores);
+
+		this.setPhase('reveal', REVEAL_MS, () =>
+			this.round < this.positions.length ? this.startCountdown() : this.finish()
+		);
+	}
+
+	/**
+	 * Store the round's guesses in each player's history
+	 * Versus guesses are not rated, like daily ones
+	 */
+	private async recordGuesses(
+		position: StreakPosition,
+		scores: (GuessScore | null)[]
+	): Promise<void> {
+		const rows = this.players.flatMap((p, i) => {
+			const score = scores[i];
+			if (!p.guess || !score) return [];
+			return [
+				{
+					userId: p.id,
+					positionId: position.id,
+					mode: 'versus',
+					guessCp: p.guess.isMate ? null : Math.round(p.guess.score * 100),
+					guessMate: p.guess.isMate ? p.guess.mateIn : null,
+					evalCp: position.score.type === 'cp' ? position.score.value : null,
+					evalMate: position.score.type === 'mate' ? position.score.value : null,
+					error: score.error,
+					points: score.points,
+					isCorrect: score.isCorrect
+				}
+			];
+		});
+		if (rows.length === 0) return;
+
+		try {
+			await db.insert(guesses).values(rows);
+		} catch (e) {
+			console.error(`Failed to record guesses for room ${this.code}:`, e);
+		}
+	}
+
+	private forfeit(playerId: number): void {
+		if (!this.isInProgress()) return;
+
+		this.forfeitedBy = playerId;
+		this.finish();
+	}
+
+	private finish(): void {
+		clearTimeout(this.timer);
+		this.phase = 'finished';
+		this.phaseEndsAt = null;
+		this.broadcast();
+	}
+
+	private setPhase(phase: RoomPhase, durationMs: number, next: () => void): void {
+		clearTimeout(this.timer);
+		this.phase = phase;
+		this.phaseEndsAt = Date.now() + durationMs;
+		this.timer = setTimeout(next, durationMs);
+		this.broadcast();
+	}
+
+	private matchWinnerId(): number | null {
+		if (this.forfeitedBy !== null) {
+			return this.players.find((p) => p.id !== this.forfeitedBy)?.id ?? null;
+		}
+
+		const [first, second] = this.players;
+		if (!first || !second || first.score === second.score) return null;
+		return first.score > second.score ? first.id : second.id;
+	}
+
+	private isInProgress(): boolean {
+		return this.phase !== 'waiting' && this.phase !== 'finished';
+	}
+
+	private getPlayer(playerId: number | null): RoomPlayer | undefined {
+		return this.players.find((p) => p.id === playerId);
+	}
+
+	private playerView(player: RoomPlayer): RoomPlayerView {
+		return {
+			name: player.name,
+			connected: player.listeners.size > 0,
+			score: player.score,
+			hasGuessed: player.guess !== null
+		};
+	}
+
+	private broadcast(): void {
+		for (const player of this.players) {
+			const view = this.viewFor(player.id);
+			for (const listener of player.listeners) {
+				listener(view);
+			}
+		}
+	}
+}
+
+// Rooms live in memory on the server process
+const rooms = new Map<string, Room>();
+
+/**
+ * Open a new room with an unused code, dropping idle rooms along the way
+ */
+export function createRoom(): Room {
+	const now = Date.now();
+	for (const [code, room] of rooms) {
+		if (room.isIdle(now)) {
+			room.dispose();
+			rooms.delete(code);
+		}
+	}
+
+	let code: string;
+	do {
+		code = generateCode();
+	} while (rooms.has(code));
+
+	const room = new Room(code);
+	rooms.set(code, room);
+	return room;
+}
+
+export function getRoom(code: string): Room | undefined {
+	return rooms.get(code.toUpperCase());
+}
+
+function generateCode(): string {
+	const bytes = crypto.getRandomValues(new Uint8Array(CODE_LENGTH));
+	return Array.from(bytes, (b) => CODE_ALPHABET[b % CODE_ALPHABET.length]).join('');
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import {
+	BLITZ_BONUS_WINDOW_MS,
+	BLITZ_MAX_BONUS,
+	StreakManager,
+	blitzBonus,
+	type StreakPosition
+} from './streakManager';
+import { scoreGuess, toEvaluationScore } from './scoring';
+
+const position: StreakPosition = {
+	id: 1,
+	fen: 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1',
+	score: { type: 'cp', value: 30 },
+	depth: 18,
+	phase: 'opening',
+	difficulty: null,
+	rating: 1500
+};
+
+describe('blitzBonus', () => {
+	const engine = toEvaluationScore(position.score);
+
+	it('gives the full bonus for an instant exact guess', () => {
+		expect(blitzBonus(scoreGuess(0.3, engine), 0)).toBe(BLITZ_MAX_BONUS);
+	});
+
+	it('shrinks with time and vanishes after the bonus window', () => {
+		const score = scoreGuess(0.3, engine);
+		expect(blitzBonus(score, BLITZ_BONUS_WINDOW_MS / 2)).toBeLessThan(BLITZ_MAX_BONUS);
+		expect(blitzBonus(score, BLITZ_BONUS_WINDOW_MS)).toBe(0);
+	});
+
+	it('gives nothing for a wrong guess', () => {
+		expect(blitzBonus(scoreGuess(-5, engine), 0)).toBe(0);
+	});
+});
+
+describe('StreakManager', () => {
+	it('adds the speed bonus to the points in blitz mode only', () => {
+		const classic = new StreakManager('classic');
+		const blitz = new StreakManager('blitz');
+
+		const classicResult = classic.submitGuess(position, 0.3, 1000);
+		const blitzResult = blitz.submitGuess(position, 0.3, 1000);
+
+		expect(classicResult.bonus).toBe(0);
+		expect(blitzResult.bonus).toBeGreaterThan(0);
+		expect(blitz.getState().points).toBe(classic.getState().points + blitzResult.bonus);
+	});
+
+	it('resets the streak on a miss', () => {
+		const manager = new StreakManager();
+		manager.submitGuess(position, 0.3);
+		manager.submitGuess(position, 0.3);
+		manager.submitGuess(position, -5);
+
+		expect(manager.getState()).toMatchObject({ streak: 0, bestStreak: 2, attempts: 3, correct: 2 });
+	});
+});
@@ -0,0 +1,158 @@
+/**
+ * Streak Manager for the eval guessing game
+ * Scores guesses against the stored engine evaluation and tracks the streak
+ */
+
+import {
+	DEFAULT_SCORING_MODEL,
+	parseGuess,
+	scoreGuess,
+	toEvaluationScore,
+	type EvalGuess,
+	type GuessScore,
+	type ScoringModel
+} from '$lib/scoring';
+import type { MoveScore } from '$lib/uciParser';
+import type { GamePhase } from '$lib/fen';
+import type { EvaluationScore, FEN } from '$lib/types/chess';
+
+export type { EvalGuess } from '$lib/scoring';
+
+/** Game modes built on the streak flow */
+export const STREAK_MODES = ['classic', 'blitz', 'review'] as const;
+export type StreakMode = (typeof STREAK_MODES)[number];
+
+// Blitz: fixed total time, with a bonus for correct guesses made quickly
+export const BLITZ_DURATION_MS = 3 * 60 * 1000;
+export const BLITZ_BONUS_WINDOW_MS = 10 * 1000;
+export const BLITZ_MAX_BONUS = 50;
+
+/** A position from the bank with its known engine evaluation */
+export interface StreakPosition {
+	id: number;
+	fen: FEN;
+	score: MoveScore; // White's perspective
+	depth: number;
+	phase: GamePhase;
+	difficulty: number | null;
+	rating: number;
+	isReview?: boolean; // Served from the player's review queue
+}
+
+export interface GuessResult {
+	positionId: number;
+	fen: FEN;
+	guess: EvaluationScore;
+	engine: EvaluationScore;
+	score: GuessScore;
+	bonus: number; // Speed bonus (blitz only)
+	isCorrect: boolean;
+}
+
+export interface StreakState {
+	streak: number;
+	bestStreak: number;
+	attempts: number;
+	correct: number;
+	points: number;
+	lastResult: GuessResult | null;
+}
+
+/**
+ * Speed bonus for a blitz guess: full bonus for an instant correct guess,
+ * scaled by accuracy and shrinking to nothing over the bonus window
+ */
+export function blitzBonus(
+	score: GuessScore,
+	elapsedMs: number,
+	model: ScoringModel = DEFAULT_SCORING_MODEL
+): number {
+	if (!score.isCorrect) return 0;
+
+	const speed = Math.max(0, 1 - elapsedMs / BLITZ_BONUS_WINDOW_MS);
+	return Math.round(BLITZ_MAX_BONUS * speed * (score.points / model.maxPoints));
+}
+
+export class StreakManager {
+	private mode: StreakMode;
+	private model: ScoringModel;
+	private state: StreakState = {
+		streak: 0,
+		bestStreak: 0,
+		attempts: 0,
+		correct: 0,
+		points: 0,
+		lastResult: null
+	};
+	private stateChangeCallback?: (state: StreakState) => void;
+
+	constructor(mode: StreakMode = 'classic', model: ScoringModel = DEFAULT_SCORING_MODEL) {
+		this.mode = mode;
+		this.model = model;
+	}
+
+	/**
+	 * Set callback for state changes
+	 */
+	onStateChange(callback: (state: StreakState) => void): void {
+		this.stateChangeCallback = callback;
+	}
+
+	/**
+	 * Get current streak state
+	 */
+	getState(): StreakState {
+		return { ...this.state };
+	}
+
+	/**
+	 * Score a guess for a position and update the streak
+	 * elapsedMs is the time spent on the position, used for the blitz bonus
+	 */
+	submitGuess(position: StreakPosition, guess: EvalGuess, elapsedMs: number = 0): GuessResult {
+		const engine = toEvaluationScore(position.score);
+		const parsedGuess = parseGuess(guess);
+		const score = scoreGuess(parsedGuess, engine, this.model);
+		const isCorrect = score.isCorrect;
+		const bonus = this.mode === 'blitz' ? blitzBonus(score, elapsedMs, this.model) : 0;
+
+		const result: GuessResult = {
+			positionId: position.id,
+			fen: position.fen,
+			guess: parsedGuess,
+			engine,
+			score,
+			bonus,
+			isCorrect
+		};
+
+		this.state.attempts++;
+		this.state.points += score.points + bonus;
+		if (isCorrect) {
+			this.state.correct++;
+			this.state.streak++;
+			this.state.bestStreak = Math.max(this.state.bestStreak, this.state.streak);
+		} else {
+			this.state.streak = 0;
+		}
+		this.state.lastResult = result;
+
+		this.stateChangeCallback?.(this.getState());
+		return result;
+	}
+
+	/**
+	 * Reset the streak and counters
+	 */
+	reset(): void {
+		this.state = {
+			streak: 0,
+			bestStreak: this.state.bestStreak,
+			attempts: 0,
+			correct: 0,
+			points: 0,
+			lastResult: null
+		};
+		this.stateChangeCallback?.(this.getState());
+	}
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { parseOptionLine, type EngineOption } from './engineOptions';
+import {
+	clampElo,
+	DEFAULT_ELO,
+	eloFloor,
+	MAX_ELO,
+	MIN_ELO,
+	skillLevelForElo,
+	strengthPlan
+} from './strength';
+
+function options(...lines: string[]): EngineOption[] {
+	return lines.map(parseOptionLine).filter((option): option is EngineOption => option !== null);
+}
+
+const SKILL_LEVEL = 'option name Skill Level type spin default 20 min 0 max 20';
+
+// Stockfish 16 reports these; the bundled 2018 build has only Skill Level
+const MODERN = options(
+	SKILL_LEVEL,
+	'option name UCI_LimitStrength type check default false',
+	'option name UCI_Elo type spin default 1320 min 1320 max 3190'
+);
+const BUNDLED = options(SKILL_LEVEL);
+
+describe('strength', () => {
+	it('clamps and rounds requested Elo', () => {
+		expect(clampElo(200)).toBe(MIN_ELO);
+		expect(clampElo(9999)).toBe(MAX_ELO);
+		expect(clampElo(1449)).toBe(1400);
+		expect(clampElo(NaN)).toBe(DEFAULT_ELO);
+	});
+
+	it('spreads the Elo range over skill levels', () => {
+		expect(skillLevelForElo(MIN_ELO)).toBe(0);
+		expect(skillLevelForElo(1800)).toBe(10);
+		expect(skillLevelForElo(MAX_ELO)).toBe(20);
+	});
+
+	it('finds the Elo floor only on engines with UCI_Elo', () => {
+		expect(eloFloor(MODERN)).toBe(1320);
+		expect(eloFloor(BUNDLED)).toBeNull();
+	});
+
+	it('uses UCI_Elo at or above the floor', () => {
+		expect(strengthPlan(2000, MODERN)).toEqual({
+			elo: 2000,
+			options: [
+				['UCI_LimitStrength', true],
+				['UCI_Elo', 2000]
+			],
+			limits: { movetime: 1000 },
+			limited: true
+		});
+	});
+
+	it('falls back to Skill Level below the floor', () => {
+		const plan = strengthPlan(1000, MODERN);
+		expect(plan.limited).toBe(false);
+		expect(plan.options).toEqual([
+			['UCI_LimitStrength', false],
+			['Skill Level', 2]
+		]);
+		expect(plan.limits).toEqual({ depth: 3 });
+	});
+
+	it('uses Skill Level on engines without UCI_Elo', () => {
+		const plan = strengthPlan(2800, BUNDLED);
+		expect(plan.options).toEqual([['Skill Level', 20]]);
+		expect(plan.limits).toEqual({ movetime: 2000 });
+	});
+});
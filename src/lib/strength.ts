@@ -0,0 +1,94 @@
+/**
+ * Computer strength
+ * Strength is a target Elo. Engines that support `UCI_LimitStrength`/`UCI_Elo`
+ * play at that rating directly; below their Elo floor, or on engines without
+ * it, the Elo is mapped onto Skill Level and a search limit instead
+ */
+
+import type { EngineOption, EngineOptionValue } from '$lib/engineOptions';
+import type { SearchLimits } from '$lib/engineClient';
+
+export const MIN_ELO = 800;
+export const MAX_ELO = 2800;
+export const ELO_STEP = 100;
+export const DEFAULT_ELO = 1500;
+
+// Search time for UCI_Elo play; the engine handles the weakening itself
+const ELO_MOVETIME = 1000;
+
+/** How to configure the engine for a strength */
+export interface StrengthPlan {
+	elo: number;
+	options: [string, EngineOptionValue][]; // Applied in order with setoption
+	limits: SearchLimits;
+	limited: boolean; // True when the engine limits itself with UCI_Elo
+}
+
+/**
+ * Clamp a requested Elo into the supported range, in steps of ELO_STEP
+ */
+export function clampElo(elo: number): number {
+	if (isNaN(elo)) return DEFAULT_ELO;
+	return Math.max(MIN_ELO, Math.min(MAX_ELO, Math.round(elo / ELO_STEP) * ELO_STEP));
+}
+
+/**
+ * Lowest Elo the engine can play with UCI_Elo, or null when it does not support it
+ */
+export function eloFloor(options: EngineOption[]): number | null {
+	const limit = options.find((option) => option.name === 'UCI_LimitStrength');
+	const elo = options.find((option) => option.name === 'UCI_Elo');
+	if (!limit || elo?.type !== 'spin') return null;
+	return elo.min;
+}
+
+/**
+ * Skill Level (0-20) for an Elo on the fallback path, spread evenly over the Elo range
+ */
+export function skillLevelForElo(elo: number): number {
+	return Math.round(((clampElo(elo) - MIN_ELO) / (MAX_ELO - MIN_ELO)) * 20);
+}
+
+/**
+ * Search limit for a Skill Level: the weakest levels also search shallower
+ */
+function skillLevelLimits(skillLevel: number): SearchLimits {
+	if (skillLevel >= 15) return { movetime: 2000 };
+	if (skillLevel >= 10) return { movetime: 1000 };
+	if (skillLevel >= 5) return { movetime: 500 };
+	return { depth: skillLevel + 1 };
+}
+
+/**
+ * Engine options and search limits for playing at an Elo
+ */
+export function strengthPlan(elo: number, options: EngineOption[]): StrengthPlan {
+	const target = clampElo(elo);
+	const floor = eloFloor(options);
+	const eloOption = options.find((option) => option.name === 'UCI_Elo');
+
+	if (floor !== null && eloOption?.type === 'spin' && target >= floor) {
+		return {
+			elo: target,
+			options: [
+				['UCI_LimitStrength', true],
+				['UCI_Elo', Math.min(target, eloOption.max)]
+			],
+			limits: { movetime: ELO_MOVETIME },
+			limited: true
+		};
+	}
+
+	const skillLevel = skillLevelForElo(target);
+	const planOptions: [string, EngineOptionValue][] = [];
+	// A previous game may have switched strength limiting on
+	if (floor !== null) planOptions.push(['UCI_LimitStrength', false]);
+	planOptions.push(['Skill Level', skillLevel]);
+
+	return {
+		elo: target,
+		options: planOptions,
+		limits: skillLevelLimits(skillLevel),
+		limited: false
+	};
+}
@@ -8,6 +8,13 @@ export type FEN = string;
 /** Chess piece colors */
 export type Color = 'white' | 'black' | 'w' | 'b';
 
+/** Win/draw/loss expectation in permille (the three add up to 1000) */
+export interface WDL {
+  win: number;
+  draw: number;
+  loss: number;
+}
+
 /** Evaluation score in centipawns or mate distance */
 export interface EvaluationScore {
   /** Score in pawns (centipawns / 100) */
@@ -18,6 +25,8 @@ export interface EvaluationScore {
   mateIn: number;
   /** Display string for the score */
   displayScore: string;
+  /** Win/draw/loss from white's perspective, reported by the engine or estimated from the score */
+  wdl?: WDL;
 }
 
 /** Stockfish worker message types */
@@ -41,4 +50,13 @@ export type StockfishWorker = Worker;
 export type Square = string;
 
 /** Chess move in UCI format */
-export type Move = [Square, Square];
\ No newline at end of file
+export type Move = [Square, Square];
+/** Arrow drawn over the board for a move */
+export interface MoveArrow {
+  /** Move in UCI format, e.g. "e2e4" */
+  move: string;
+  /** Arrow colour (any CSS colour) */
+  color: string;
+  /** Optional label at the arrow head */
+  label?: string;
+}
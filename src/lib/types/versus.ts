@@ -0,0 +1,42 @@
+/**
+ * Head-to-head eval guessing type definitions
+ * Shared between the room server and the versus page
+ */
+
+import type { EvaluationScore, FEN } from './chess';
+
+/** Phases of a versus match, in order */
+export type RoomPhase = 'waiting' | 'countdown' | 'guessing' | 'reveal' | 'finished';
+
+/** A player as seen by either side of the room */
+export interface RoomPlayerView {
+	name: string;
+	connected: boolean;
+	score: number;
+	hasGuessed: boolean;
+}
+
+/** Outcome of a single round */
+export interface RoundResultView {
+	round: number;
+	fen: FEN;
+	engine: EvaluationScore;
+	yourGuess: EvaluationScore | null;
+	opponentGuess: EvaluationScore | null;
+	winner: 'you' | 'opponent' | 'draw';
+}
+
+/** Room state sent to a player; hides the opponent's guess until the reveal */
+export interface RoomView {
+	code: string;
+	phase: RoomPhase;
+	round: number; // 1-based, 0 before the first round
+	totalRounds: number;
+	you: RoomPlayerView;
+	opponent: RoomPlayerView | null;
+	fen: FEN | null; // Position of the current round, once guessing starts
+	phaseEndsIn: number | null; // Milliseconds left in a timed phase
+	lastRound: RoundResultView | null;
+	winner: 'you' | 'opponent' | 'draw' | null; // Set when the match is finished
+	forfeit: boolean; // Whether the match ended because a player left
+}
@@ -0,0 +1,213 @@
+import { describe, expect, it } from 'vitest';
+import { estimateWDL, parseInfoLine, UCIParser } from './uciParser';
+
+// Transcripts from the bundled Stockfish: MultiPV 2 on 6k1/5ppp/8/8/8/8/5PPP/R5K1 w,
+// then the Italian after 3...Nf6 with MultiPV 1
+const BACK_RANK = [
+	'info depth 1 seldepth 1 multipv 1 score mate 1 nodes 39 nps 13000 tbhits 0 time 3 pv a1a8',
+	'info depth 2 seldepth 2 multipv 2 score cp 601 nodes 144 nps 28800 tbhits 0 time 5 pv a1a7 g7g5',
+	'info depth 6 seldepth 6 multipv 2 score cp 621 nodes 2623 nps 131150 tbhits 0 time 20 pv g1f1 g7g5 f1e2 g8g7 a1a7 g7f6'
+];
+
+const ITALIAN = [
+	'info depth 15 seldepth 23 multipv 1 score cp 42 upperbound nodes 658195 nps 212115 hashfull 303 tbhits 0 time 3103 pv d2d3 f8c5',
+	'info depth 15 seldepth 23 multipv 1 score cp 45 nodes 790241 nps 210787 hashfull 356 tbhits 0 time 3749 pv d2d3 f8c5 e1g1 d7d6 b1c3 e8g8 c3a4 c5b6 a2a3 c8e6 c4e6 f7e6 c1g5 h7h6 g5d2 c6d4',
+	'info depth 16 seldepth 20 multipv 1 score cp 53 lowerbound nodes 888257 nps 212603 hashfull 399 tbhits 0 time 4178 pv d2d4',
+	'info depth 16 seldepth 22 multipv 1 score cp 60 nodes 966706 nps 214632 hashfull 434 tbhits 0 time 4504 pv d2d4'
+];
+
+// Newer Stockfish releases add WDL and NNUE strings
+const MODERN = [
+	'info string NNUE evaluation using nn-b1a57edbea57.nnue',
+	'info depth 24 seldepth 31 multipv 1 score cp 31 wdl 67 903 30 nodes 2106571 nps 1053285 hashfull 712 tbhits 0 time 2000 pv e2e4 e7e5 g1f3',
+	'info depth 24 currmove e2e4 currmovenumber 1'
+];
+
+describe('parseInfoLine', () => {
+	it('reads every field of a complete line', () => {
+		expect(parseInfoLine(ITALIAN[1])).toEqual({
+			depth: 15,
+			seldepth: 23,
+			multipv: 1,
+			score: { type: 'cp', value: 45 },
+			nodes: 790241,
+			nps: 210787,
+			hashfull: 356,
+			tbhits: 0,
+			time: 3749,
+			pv: ITALIAN[1].split(' pv ')[1].split(' ')
+		});
+	});
+
+	it('keeps depth and seldepth apart', () => {
+		const info = parseInfoLine(ITALIAN[2]);
+		expect(info?.depth).toBe(16);
+		expect(info?.seldepth).toBe(20);
+	});
+
+	it('marks bound scores', () => {
+		expect(parseInfoLine(ITALIAN[0])).toMatchObject({
+			score: { type: 'cp', value: 42 },
+			bound: 'upper',
+			nps: 212115
+		});
+		expect(parseInfoLine(ITALIAN[2])).toMatchObject({
+			score: { type: 'cp', value: 53 },
+			bound: 'lower'
+		});
+		expect(parseInfoLine(ITALIAN[3])?.bound).toBeUndefined();
+	});
+
+	it('reads mate scores', () => {
+		expect(parseInfoLine(BACK_RANK[0])).toMatchObject({
+			score: { type: 'mate', value: 1 },
+			pv: ['a1a8']
+		});
+	});
+
+	it('reads WDL, currmove and strings', () => {
+		expect(parseInfoLine(MODERN[0])).toEqual({
+			string: 'NNUE evaluation using nn-b1a57edbea57.nnue'
+		});
+		expect(parseInfoLine(MODERN[1])?.wdl).toEqual({ win: 67, draw: 903, loss: 30 });
+		expect(parseInfoLine(MODERN[2])).toEqual({ depth: 24, currmove: 'e2e4', currmovenumber: 1 });
+	});
+
+	it('takes the rest of the line after string, even when it looks like fields', () => {
+		expect(parseInfoLine('info depth 3 string depth 9 pv e2e4')).toEqual({
+			depth: 3,
+			string: 'depth 9 pv e2e4'
+		});
+	});
+
+	it('skips unknown tokens and rejects non-info lines', () => {
+		expect(parseInfoLine('info depth 5 foo 7 nodes 10')).toEqual({ depth: 5, nodes: 10 });
+		expect(parseInfoLine('bestmove e2e4 ponder e7e5')).toBeNull();
+		expect(parseInfoLine('id name Stockfish')).toBeNull();
+	});
+});
+
+describe('estimateWDL', () => {
+	it('splits a thousand between win, draw and loss', () => {
+		const level = estimateWDL({ type: 'cp', value: 0 });
+		expect(level.win).toBe(level.loss);
+		expect(level.draw).toBeGreaterThan(level.win);
+
+		for (const value of [-900, -150, 35, 300, 2000]) {
+			const wdl = estimateWDL({ type: 'cp', value });
+			expect(wdl.win + wdl.draw + wdl.loss).toBe(1000);
+			expect(wdl.draw).toBeGreaterThanOrEqual(0);
+		}
+	});
+
+	it('favours the better side', () => {
+		const ahead = estimateWDL({ type: 'cp', value: 300 });
+		expect(ahead.win).toBeGreaterThan(ahead.draw);
+		expect(ahead.win).toBeGreaterThan(estimateWDL({ type: 'cp', value: 100 }).win);
+		expect(estimateWDL({ type: 'cp', value: -300 })).toEqual({
+			win: ahead.loss,
+			draw: ahead.draw,
+			loss: ahead.win
+		});
+	});
+
+	it('treats mate as certain', () => {
+		expect(estimateWDL({ type: 'mate', value: 3 })).toEqual({ win: 1000, draw: 0, loss: 0 });
+		expect(estimateWDL({ type: 'mate', value: -2 })).toEqual({ win: 0, draw: 0, loss: 1000 });
+		expect(estimateWDL({ type: 'mate', value: 0 })).toEqual({ win: 0, draw: 0, loss: 1000 });
+	});
+});
+
+describe('UCIParser', () => {
+	it('collects MultiPV lines with their search statistics', () => {
+		const parser = new UCIParser();
+		BACK_RANK.forEach((line) => parser.parseInfo(line));
+		const snapshot = parser.handleBestMove('bestmove a1a8');
+
+		expect(snapshot.depth).toBe(6);
+		expect(snapshot.bestMove).toBe('a1a8');
+		expect(snapshot.moves.get('g1f1')).toMatchObject({
+			depth: 6,
+			multipv: 2,
+			seldepth: 6,
+			nps: 131150,
+			tbhits: 0,
+			time: 20
+		});
+	});
+
+	it('does not let a bound score replace an exact one from the same depth', () => {
+		const parser = new UCIParser();
+		parser.parseInfo(ITALIAN[1]);
+		parser.parseInfo(ITALIAN[0].replace('pv d2d3 f8c5', 'pv d2d3'));
+
+		expect(parser.getSnapshot().moves.get('d2d3')).toMatchObject({
+			score: { type: 'cp', value: 45 }
+		});
+		expect(parser.getSnapshot().moves.get('d2d3')?.bound).toBeUndefined();
+	});
+
+	it('replaces a bound score once the exact one arrives', () => {
+		const parser = new UCIParser();
+		ITALIAN.forEach((line) => parser.parseInfo(line));
+
+		const d2d4 = parser.getSnapshot().moves.get('d2d4');
+		expect(d2d4).toMatchObject({ depth: 16, score: { type: 'cp', value: 60 }, hashfull: 434 });
+		expect(d2d4?.bound).toBeUndefined();
+	});
+
+	it('exposes WDL on move analysis', () => {
+		const parser = new UCIParser();
+		MODERN.forEach((line) => parser.parseInfo(line));
+
+		expect(parser.getSnapshot().moves.get('e2e4')?.wdl).toEqual({ win: 67, draw: 903, loss: 30 });
+	});
+
+	it('reports evaluations from White and ignores bound scores', () => {
+		const black = new UCIParser();
+		black.setSideToMove(true);
+		expect(
+			black.parseEvaluation('info depth 10 seldepth 12 score cp 35 nodes 100 pv e7e5')
+		).toMatchObject({
+			score: -0.35,
+			displayScore: '-0.35',
+			isMate: false
+		});
+
+		const white = new UCIParser();
+		expect(white.parseEvaluation(ITALIAN[0])).toBeNull();
+		expect(white.parseEvaluation(ITALIAN[1])).toMatchObject({ score: 0.45, displayScore: '+0.45' });
+		expect(white.parseEvaluation(BACK_RANK[0])).toMatchObject({
+			displayScore: '+M1',
+			isMate: true
+		});
+	});
+
+	it('reports WDL from White', () => {
+		const black = new UCIParser();
+		black.setSideToMove(true);
+		expect(black.parseEvaluation(MODERN[1])?.wdl).toEqual({ win: 30, draw: 903, loss: 67 });
+		expect(new UCIParser().parseEvaluation(MODERN[1])?.wdl).toEqual({
+			win: 67,
+			draw: 903,
+			loss: 30
+		});
+	});
+
+	it('estimates WDL from the score when the engine does not report it', () => {
+		const parser = new UCIParser();
+		ITALIAN.forEach((line) => parser.parseInfo(line));
+		expect(parser.getSnapshot().moves.get('d2d4')?.wdl).toEqual(
+			estimateWDL({ type: 'cp', value: 60 })
+		);
+
+		const black = new UCIParser();
+		black.setSideToMove(true);
+		const forBlack = estimateWDL({ type: 'cp', value: 45 });
+		expect(black.parseEvaluation(ITALIAN[1])?.wdl).toEqual({
+			win: forBlack.loss,
+			draw: forBlack.draw,
+			loss: forBlack.win
+		});
+	});
+});
@@ -4,11 +4,18 @@
  * Properly handles iterative deepening and MultiPV analysis
  */
 
+import type { FEN, WDL } from '$lib/types/chess';
+
+export type { WDL };
+
 export interface MoveScore {
   type: 'cp' | 'mate';
   value: number;
 }
 
+/** Set when a score only bounds the true value (aspiration window fail high/low) */
+export type ScoreBound = 'lower' | 'upper';
+
 export interface MoveAnalysisData {
   move: string;
   score: MoveScore;
@@ -18,9 +25,146 @@ export interface MoveAnalysisData {
   multipv?: number; // MultiPV rank (1 = best, 2 = second best, etc.)
   seldepth?: number; // Selective depth
   time?: number; // Time in milliseconds
+  bound?: ScoreBound; // Provisional score
+  wdl?: WDL; // Side to move's perspective, like the score; estimated when the engine does not report it
+  nps?: number; // Nodes per second
+  hashfull?: number; // Hash table usage in permille
+  tbhits?: number; // Tablebase hits
+  currmovenumber?: number; // Position of the move in the search order (currmove lines only)
+}
+
+/** Every field of a UCI `info` line; absent fields are undefined */
+export interface UCIInfo {
+  depth?: number;
+  seldepth?: number;
+  time?: number;
+  nodes?: number;
+  multipv?: number;
+  score?: MoveScore;
+  bound?: ScoreBound;
+  wdl?: WDL;
+  currmove?: string;
+  currmovenumber?: number;
+  hashfull?: number;
+  nps?: number;
+  tbhits?: number;
+  sbhits?: number;
+  cpuload?: number;
+  pv?: string[];
+  refutation?: string[];
+  currline?: string[];
+  string?: string; // Free text, always the rest of the line
+}
+
+// Fields followed by a single integer
+const INTEGER_FIELDS = [
+  'depth',
+  'seldepth',
+  'time',
+  'nodes',
+  'multipv',
+  'currmovenumber',
+  'hashfull',
+  'nps',
+  'tbhits',
+  'sbhits',
+  'cpuload'
+] as const;
+
+type IntegerField = (typeof INTEGER_FIELDS)[number];
+
+const UCI_MOVE = /^[a-h][1-8][a-h][1-8][qrbnQRBN]?$/;
+
+// Logistic win-rate model for engines that do not report WDL: the side to move
+// wins half the time at WDL_MIDPOINT centipawns, and WDL_SCALE sets how fast that changes
+const WDL_MIDPOINT = 150;
+const WDL_SCALE = 75;
+
+/**
+ * Turn a side-to-move WDL into white's perspective
+ */
+export function wdlForWhite(wdl: WDL, isBlackToMove: boolean): WDL {
+  return isBlackToMove ? { win: wdl.loss, draw: wdl.draw, loss: wdl.win } : wdl;
+}
+
+/**
+ * Estimate a side-to-move WDL (per mille) from a score, for engines without `UCI_ShowWDL`
+ */
+export function estimateWDL(score: MoveScore): WDL {
+  if (score.type === 'mate') {
+    // Mate 0: the side to move is already mated
+    return score.value > 0 ? { win: 1000, draw: 0, loss: 0 } : { win: 0, draw: 0, loss: 1000 };
+  }
+
+  const win = Math.round(1000 / (1 + Math.exp((WDL_MIDPOINT - score.value) / WDL_SCALE)));
+  const loss = Math.round(1000 / (1 + Math.exp((WDL_MIDPOINT + score.value) / WDL_SCALE)));
+  return { win, draw: 1000 - win - loss, loss };
+}
+
+/**
+ * Parse a UCI `info` line token by token
+ * Returns null for anything that is not an `info` line
+ */
+export function parseInfoLine(line: string): UCIInfo | null {
+  const tokens = line.trim().split(/\s+/);
+  if (tokens[0] !== 'info') return null;
+
+  const info: UCIInfo = {};
+  // Consecutive moves starting at the given token
+  const readMoves = (start: number): string[] => {
+    const moves: string[] = [];
+    for (let j = start; j < tokens.length && UCI_MOVE.test(tokens[j]); j++) moves.push(tokens[j]);
+    return moves;
+  };
+
+  let i = 1;
+  while (i < tokens.length) {
+    const token = tokens[i];
+
+    if ((INTEGER_FIELDS as readonly string[]).includes(token)) {
+      const value = parseInt(tokens[i + 1], 10);
+      if (!isNaN(value)) info[token as IntegerField] = value;
+      i += 2;
+    } else if (token === 'score') {
+      const type = tokens[i + 1];
+      const value = parseInt(tokens[i + 2], 10);
+      if ((type === 'cp' || type === 'mate') && !isNaN(value)) info.score = { type, value };
+      i += 3;
+      if (tokens[i] === 'lowerbound' || tokens[i] === 'upperbound') {
+        info.bound = tokens[i] === 'lowerbound' ? 'lower' : 'upper';
+        i++;
+      }
+    } else if (token === 'wdl') {
+      const [win, draw, loss] = tokens.slice(i + 1, i + 4).map((t) => parseInt(t, 10));
+      if (![win, draw, loss].some(isNaN)) info.wdl = { win, draw, loss };
+      i += 4;
+    } else if (token === 'currmove') {
+      info.currmove = tokens[i + 1];
+      i += 2;
+    } else if (token === 'pv' || token === 'refutation') {
+      const moves = readMoves(i + 1);
+      info[token] = moves;
+      i += 1 + moves.length;
+    } else if (token === 'currline') {
+      // Optional CPU number before the moves
+      const cpu = /^\d+$/.test(tokens[i + 1] ?? '') ? 1 : 0;
+      const moves = readMoves(i + 1 + cpu);
+      info.currline = moves;
+      i += 1 + cpu + moves.length;
+    } else if (token === 'string') {
+      info.string = tokens.slice(i + 1).join(' ');
+      break;
+    } else {
+      // Unknown token: skip it
+      i++;
+    }
+  }
+
+  return info;
 }
 
 export interface AnalysisSnapshot {
+  fen?: FEN; // Position searched, when the sender knows it (EvaluationBar events always carry it)
   depth: number;
   moves: Map<string, MoveAnalysisData>;
   timestamp: number;
@@ -68,11 +212,10 @@ export class UCIParser {
    * Returns true if analysis was updated, false otherwise
    */
   parseInfo(message: string): boolean {
-    // Extract depth from message
-    const depthMatch = message.match(/depth (\d+)/);
-    if (!depthMatch) return false;
+    const info = parseInfoLine(message);
+    if (!info || info.depth === undefined) return false;
 
-    const depth = parseInt(depthMatch[1], 10);
+    const depth = info.depth;
     let updated = false;
 
     // Handle depth transitions - only clear when going DEEPER
@@ -90,65 +233,55 @@ export class UCIParser {
       // This can happen with MultiPV or delayed messages
     }
 
-    // Extract additional info fields
-    const multipvMatch = message.match(/multipv (\d+)/);
-    const seldepthMatch = message.match(/seldepth (\d+)/);
-    const timeMatch = message.match(/time (\d+)/);
-    const nodesMatch = message.match(/nodes (\d+)/);
-
-    const multipv = multipvMatch ? parseInt(multipvMatch[1], 10) : 1;
-    const seldepth = seldepthMatch ? parseInt(seldepthMatch[1], 10) : undefined;
-    const time = timeMatch ? parseInt(timeMatch[1], 10) : undefined;
-    const nodes = nodesMatch ? parseInt(nodesMatch[1], 10) : undefined;
+    // Search statistics shared by every move on this line
+    const details = {
+      depth,
+      multipv: info.multipv ?? 1,
+      seldepth: info.seldepth,
+      time: info.time,
+      nodes: info.nodes,
+      bound: info.bound,
+      wdl: info.wdl ?? (info.score ? estimateWDL(info.score) : undefined),
+      nps: info.nps,
+      hashfull: info.hashfull,
+      tbhits: info.tbhits
+    };
 
     // Parse current move being analyzed
-    const currMoveMatch = message.match(/currmove ([a-h][1-8][a-h][1-8][qrbnQRBN]?)/);
-    if (currMoveMatch) {
-      const move = currMoveMatch[1];
-      const score = this.extractScore(message);
-
-      if (score) {
-        // Only update if we don't have better data (PV) for this move
-        const existing = this.moveAnalysis.get(move);
-
-        if (!existing || !existing.pv) {
-          this.moveAnalysis.set(move, {
-            move,
-            score,
-            depth,
-            multipv,
-            seldepth,
-            time,
-            nodes
-          });
-          updated = true;
-        }
+    if (info.currmove && this.isValidMove(info.currmove) && info.score) {
+      const move = info.currmove;
+
+      // Only update if we don't have better data (PV) for this move
+      const existing = this.moveAnalysis.get(move);
+
+      if (!existing || !existing.pv) {
+        this.moveAnalysis.set(move, {
+          move,
+          score: info.score,
+          ...details,
+          currmovenumber: info.currmovenumber
+        });
+        updated = true;
       }
     }
 
     // Parse principal variation (best line) - this is higher quality data
-    const pvMatch = message.match(/\bpv ([a-h][1-8][a-h][1-8][qrbnQRBN]?(?:\s+[a-h][1-8][a-h][1-8][qrbnQRBN]?)*)/);
-    if (pvMatch) {
-      const moves = pvMatch[1].trim().split(/\s+/);
-      const firstMove = moves[0];
-
-      if (firstMove && this.isValidMove(firstMove)) {
-        const score = this.extractScore(message);
-
-        if (score) {
-          // PV data always overwrites existing data
-          this.moveAnalysis.set(firstMove, {
-            move: firstMove,
-            score,
-            depth,
-            pv: moves,
-            multipv,
-            seldepth,
-            time,
-            nodes
-          });
-          updated = true;
-        }
+    const firstMove = info.pv?.[0];
+    if (info.pv && firstMove && info.score) {
+      const existing = this.moveAnalysis.get(firstMove);
+
+      // Bound scores are provisional: they never replace an exact score from the same depth
+      const isProvisionalUpdate = info.bound && existing?.pv && !existing.bound && existing.depth === depth;
+
+      if (!isProvisionalUpdate) {
+        // PV data otherwise always overwrites existing data
+        this.moveAnalysis.set(firstMove, {
+          move: firstMove,
+          score: info.score,
+          pv: info.pv,
+          ...details
+        });
+        updated = true;
       }
     }
 
@@ -165,12 +298,16 @@ export class UCIParser {
 
   /**
    * Parse evaluation score from UCI message
-   * Returns from WHITE's perspective
+   * Returns from WHITE's perspective; bound (provisional) scores are ignored
    */
-  parseEvaluation(message: string): { score: number; displayScore: string; isMate: boolean } | null {
-    const mateMatch = message.match(/score mate (-?\d+)/);
-    if (mateMatch) {
-      let mateIn = parseInt(mateMatch[1], 10);
+  parseEvaluation(message: string): { score: number; displayScore: string; isMate: boolean; wdl?: WDL } | null {
+    const info = parseInfoLine(message);
+    if (!info?.score || info.bound) return null;
+
+    const wdl = wdlForWhite(info.wdl ?? estimateWDL(info.score), this.isBlackToMove);
+
+    if (info.score.type === 'mate') {
+      let mateIn = info.score.value;
 
       // Convert to white's perspective if black to move
       if (this.isBlackToMove) {
@@ -185,14 +322,16 @@ export class UCIParser {
           return {
             score: 1100, // Very high score to ensure complete bar fill
             displayScore: '#',
-            isMate: true
+            isMate: true,
+            wdl
           };
         } else {
           // White is in checkmate, black wins
           return {
             score: -1100,
             displayScore: '#',
-            isMate: true
+            isMate: true,
+            wdl
           };
         }
       }
@@ -205,29 +344,26 @@ export class UCIParser {
       return {
         score: finalScore,
         displayScore,
-        isMate: true
+        isMate: true,
+        wdl
       };
     }
 
-    const cpMatch = message.match(/score cp (-?\d+)/);
-    if (cpMatch) {
-      let rawScore = parseInt(cpMatch[1], 10) / 100; // Convert to pawns
-
-      // Convert to white's perspective if black to move
-      if (this.isBlackToMove) {
-        rawScore = -rawScore;
-      }
-
-      const displayScore = rawScore > 0 ? `+${rawScore.toFixed(2)}` : rawScore.toFixed(2);
+    let rawScore = info.score.value / 100; // Convert to pawns
 
-      return {
-        score: rawScore,
-        displayScore,
-        isMate: false
-      };
+    // Convert to white's perspective if black to move
+    if (this.isBlackToMove) {
+      rawScore = -rawScore;
     }
 
-    return null;
+    const displayScore = rawScore > 0 ? `+${rawScore.toFixed(2)}` : rawScore.toFixed(2);
+
+    return {
+      score: rawScore,
+      displayScore,
+      isMate: false,
+      wdl
+    };
   }
 
   /**
@@ -310,34 +446,9 @@ export class UCIParser {
 
   // Private helper methods
 
-  private extractScore(message: string): MoveScore | null {
-    const cpMatch = message.match(/score cp (-?\d+)/);
-    if (cpMatch) {
-      return {
-        type: 'cp',
-        value: parseInt(cpMatch[1], 10)
-      };
-    }
-
-    const mateMatch = message.match(/score mate (-?\d+)/);
-    if (mateMatch) {
-      return {
-        type: 'mate',
-        value: parseInt(mateMatch[1], 10)
-      };
-    }
-
-    return null;
-  }
-
-  private extractNodes(message: string): number | undefined {
-    const nodesMatch = message.match(/nodes (\d+)/);
-    return nodesMatch ? parseInt(nodesMatch[1], 10) : undefined;
-  }
-
   private isValidMove(move: string): boolean {
     // Basic validation for UCI move format
-    return /^[a-h][1-8][a-h][1-8][qrbnQRBN]?$/.test(move);
+    return UCI_MOVE.test(move);
   }
 
   private calculateNumericScore(score: MoveScore): number {
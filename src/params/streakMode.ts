@@ -0,0 +1,6 @@
+import type { ParamMatcher } from '@sveltejs/kit';
+import { STREAK_MODES, type StreakMode } from '$lib/streakManager';
+
+// Streak modes selected by the route (/streak is the classic mode)
+export const match = ((param: string): param is StreakMode =>
+	STREAK_MODES.includes(param as StreakMode)) satisfies ParamMatcher;
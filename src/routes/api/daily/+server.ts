@@ -0,0 +1,36 @@
+import { error, json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getOrCreatePlayer } from '$lib/server/player';
+import { getDailyPositions, recordDailyGuess } from '$lib/server/daily';
+import { dailyDate } from '$lib/daily';
+
+/**
+ * Record a guess in today's daily challenge; each slot keeps its first guess,
+ * which is what a repeated request gets back
+ * Body: { date, slot, guess }
+ */
+export const POST: RequestHandler = async ({ request, cookies, locals }) => {
+	const body = await request.json().catch(() => null);
+	const slot = Number(body?.slot);
+	const guess = body?.guess;
+
+	if (!Number.isInteger(slot) || (typeof guess !== 'number' && typeof guess !== 'string')) {
+		error(400, 'Expected { date, slot, guess }');
+	}
+
+	// A page left open past midnight is still showing yesterday's positions
+	const date = dailyDate();
+	if (body?.date !== date) {
+		error(409, 'This daily challenge has ended');
+	}
+
+	const position = (await getDailyPositions(date))[slot];
+	if (!position) {
+		error(404, 'Position not found');
+	}
+
+	const player = await getOrCreatePlayer(cookies, locals);
+	const result = await recordDailyGuess(player, date, slot, position, guess);
+
+	return json(result);
+};
@@ -0,0 +1,67 @@
+import { error, json } from '@sveltejs/kit';
+import { validateFen } from 'chess.js';
+import type { RequestHandler } from './$types';
+import { env } from '$env/dynamic/private';
+import { hasBearerToken } from '$lib/server/auth';
+import {
+	DEFAULT_EVALUATION_DEPTH,
+	MAX_EVALUATION_BATCH,
+	MAX_EVALUATION_DEPTH,
+	MAX_EVALUATION_MOVETIME,
+	evaluatePositions
+} from '$lib/server/evaluations';
+
+// Read an optional integer within bounds; undefined when absent, null when invalid
+function intParam(value: unknown, min: number, max: number): number | null | undefined {
+	if (value === undefined || value === null) return undefined;
+	return Number.isInteger(value) && (value as number) >= min && (value as number) <= max
+		? (value as number)
+		: null;
+}
+
+/**
+ * Evaluate positions with the server's engine pool
+ * Body: { fens, depth?, movetime? }. Results come back in request order, from white's
+ * perspective, and are cached by normalized FEN. Disabled unless EVALUATE_TOKEN is set.
+ */
+export const POST: RequestHandler = async ({ request }) => {
+	if (!env.EVALUATE_TOKEN) {
+		error(503, 'Server-side evaluation is disabled: set EVALUATE_TOKEN to enable it');
+	}
+	if (!hasBearerToken(request, env.EVALUATE_TOKEN)) {
+		error(401, 'Invalid evaluate token');
+	}
+
+	const body = await request.json().catch(() => null);
+	const fens: unknown = body?.fens;
+	if (!Array.isArray(fens) || fens.length === 0 || !fens.every((fen) => typeof fen === 'string')) {
+		error(400, 'Expected { fens: string[], depth?, movetime? }');
+	}
+	if (fens.length > MAX_EVALUATION_BATCH) {
+		error(400, `At most ${MAX_EVALUATION_BATCH} positions per request`);
+	}
+
+	const invalid = fens.find((fen) => !validateFen(fen).ok);
+	if (invalid !== undefined) {
+		error(400, `Invalid FEN: ${invalid}`);
+	}
+
+	const depth = intParam(body.depth, 1, MAX_EVALUATION_DEPTH);
+	const movetime = intParam(body.movetime, 1, MAX_EVALUATION_MOVETIME);
+	if (depth === null) error(400, `depth must be an integer from 1 to ${MAX_EVALUATION_DEPTH}`);
+	if (movetime === null)
+		error(400, `movetime must be an integer from 1 to ${MAX_EVALUATION_MOVETIME}`);
+
+	try {
+		const results = await evaluatePositions(
+			fens,
+			{ depth: depth ?? DEFAULT_EVALUATION_DEPTH, movetime },
+			request.signal
+		);
+		return json({ results });
+	} catch (e) {
+		// Client went away: the searches were stopped and nobody is listening
+		if (request.signal.aborted) error(499, 'Request cancelled');
+		throw e;
+	}
+};
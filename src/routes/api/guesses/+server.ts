@@ -0,0 +1,32 @@
+import { error, json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getOrCreatePlayer } from '$lib/server/player';
+import { recordRatedGuess } from '$lib/server/ratings';
+import { STREAK_MODES, type StreakMode } from '$lib/streakManager';
+
+/**
+ * Record a guess for a bank position and update the player's and position's ratings
+ * Each position Streak serves can be guessed once
+ * Body: { positionId, guess, mode? }
+ */
+export const POST: RequestHandler = async ({ request, cookies, locals }) => {
+	const body = await request.json().catch(() => null);
+	const positionId = Number(body?.positionId);
+	const guess = body?.guess;
+	const mode: StreakMode = body?.mode ?? 'classic';
+
+	if (!Number.isInteger(positionId) || (typeof guess !== 'number' && typeof guess !== 'string')) {
+		error(400, 'Expected { positionId, guess }');
+	}
+	if (!STREAK_MODES.includes(mode)) {
+		error(400, 'Unknown mode');
+	}
+
+	const player = await getOrCreatePlayer(cookies, locals);
+	const result = await recordRatedGuess(player, positionId, guess, mode);
+	if (!result) {
+		error(409, 'Position was not served or has already been guessed');
+	}
+
+	return json(result);
+};
@@ -0,0 +1,97 @@
+import { error } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { env } from '$env/dynamic/private';
+import { hasBearerToken } from '$lib/server/auth';
+import {
+	DEFAULT_IMPORT_OPTIONS,
+	MAX_IMPORT_DEPTH,
+	detectFormat,
+	importPositions,
+	type ImportFormat,
+	type ImportOptions
+} from '$lib/server/positionImport';
+
+// Read a positive integer form field, falling back to the default
+function intField(form: FormData, name: string, fallback: number): number {
+	const value = parseInt(String(form.get(name) ?? ''), 10);
+	return isNaN(value) || value < 0 ? fallback : value;
+}
+
+// Read the search depth, clamped to what the server is willing to spend per position
+function depthField(form: FormData): number {
+	const depth = intField(form, 'depth', DEFAULT_IMPORT_OPTIONS.depth);
+	return Math.min(MAX_IMPORT_DEPTH, Math.max(1, depth));
+}
+
+/**
+ * Import positions from an uploaded PGN or EPD file into the position bank.
+ * Streams newline-delimited JSON progress events while the engine works;
+ * re-uploading the same file after an interruption resumes the import.
+ * Disabled unless IMPORT_TOKEN is set, since every position costs an engine search.
+ */
+export const POST: RequestHandler = async ({ request }) => {
+	if (!env.IMPORT_TOKEN) {
+		error(503, 'Position import is disabled: set IMPORT_TOKEN to enable it');
+	}
+	if (!hasBearerToken(request, env.IMPORT_TOKEN)) {
+		error(401, 'Invalid import token');
+	}
+
+	const form = await request.formData();
+	const file = form.get('file');
+	if (!(file instanceof File)) {
+		error(400, 'Upload a PGN or EPD file in the "file" field');
+	}
+
+	const text = await file.text();
+	const formatParam = form.get('format');
+	const format: ImportFormat =
+		formatParam === 'pgn' || formatParam === 'epd' ? formatParam : detectFormat(file.name, text);
+
+	const options: ImportOptions = {
+		source: String(form.get('source') || file.name),
+		depth: depthField(form),
+		skipPlies: intField(form, 'skipPlies', DEFAULT_IMPORT_OPTIONS.skipPlies),
+		sampleEvery: Math.max(1, intField(form, 'sampleEvery', DEFAULT_IMPORT_OPTIONS.sampleEvery)),
+		maxPerGame: intField(form, 'maxPerGame', DEFAULT_IMPORT_OPTIONS.maxPerGame),
+		skipInCheck: form.get('includeChecks') !== 'true',
+		batchSize: DEFAULT_IMPORT_OPTIONS.batchSize
+	};
+
+	const abort = new AbortController();
+	const encoder = new TextEncoder();
+
+	const stream = new ReadableStream<Uint8Array>({
+		async start(controller) {
+			const send = (event: object) => {
+				if (!abort.signal.aborted) {
+					controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+				}
+			};
+
+			try {
+				const result = await importPositions(
+					text,
+					format,
+					options,
+					(progress) => send({ type: 'progress', ...progress }),
+					abort.signal
+				);
+				send({ type: 'done', ...result });
+			} catch (e) {
+				console.error('Position import failed:', e);
+				send({ type: 'error', message: e instanceof Error ? e.message : String(e) });
+			}
+
+			if (!abort.signal.aborted) controller.close();
+		},
+		cancel() {
+			// Client went away: stop after the current position
+			abort.abort();
+		}
+	});
+
+	return new Response(stream, {
+		headers: { 'content-type': 'application/x-ndjson' }
+	});
+};
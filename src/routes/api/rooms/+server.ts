@@ -0,0 +1,15 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { displayName, getOrCreatePlayer } from '$lib/server/player';
+import { createRoom } from '$lib/server/versus';
+
+/**
+ * Open a head-to-head room and take the first seat
+ */
+export const POST: RequestHandler = async ({ cookies, locals }) => {
+	const player = await getOrCreatePlayer(cookies, locals);
+	const room = createRoom();
+	room.join(player.id, displayName(player));
+
+	return json({ code: room.code }, { status: 201 });
+};
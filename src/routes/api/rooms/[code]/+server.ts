@@ -0,0 +1,43 @@
+import { error, json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getOrCreatePlayer } from '$lib/server/player';
+import { getRoom } from '$lib/server/versus';
+
+/**
+ * Player actions in a room: { action: 'guess', guess } or { action: 'rematch' }
+ */
+export const POST: RequestHandler = async ({ params, request, cookies, locals }) => {
+	const room = getRoom(params.code);
+	if (!room) {
+		error(404, 'Room not found');
+	}
+
+	const player = await getOrCreatePlayer(cookies, locals);
+	if (!room.hasPlayer(player.id)) {
+		error(403, 'Not a player in this room');
+	}
+
+	const body = await request.json().catch(() => null);
+
+	switch (body?.action) {
+		case 'guess': {
+			const guess = body.guess;
+			if (typeof guess !== 'number' && typeof guess !== 'string') {
+				error(400, 'Expected { action: "guess", guess }');
+			}
+			if (!room.submitGuess(player.id, guess)) {
+				error(409, 'Guesses are not being accepted');
+			}
+			break;
+		}
+		case 'rematch':
+			if (!room.rematch(player.id)) {
+				error(409, 'The match is not finished');
+			}
+			break;
+		default:
+			error(400, 'Unknown action');
+	}
+
+	return json({ ok: true });
+};
@@ -0,0 +1,51 @@
+import { error } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getOrCreatePlayer } from '$lib/server/player';
+import { getRoom } from '$lib/server/versus';
+
+// Comment lines keep proxies from closing an idle stream
+const KEEP_ALIVE_MS = 15 * 1000;
+
+/**
+ * Server-sent events with the room state for this player.
+ * EventSource reconnects on its own; the room resends the full state on every connect.
+ */
+export const GET: RequestHandler = async ({ params, cookies, locals, request }) => {
+	const room = getRoom(params.code);
+	if (!room) {
+		error(404, 'Room not found');
+	}
+
+	const player = await getOrCreatePlayer(cookies, locals);
+	if (!room.hasPlayer(player.id)) {
+		error(403, 'Not a player in this room');
+	}
+
+	let disconnect: (() => void) | undefined;
+	let keepAlive: ReturnType<typeof setInterval> | undefined;
+
+	const close = (): void => {
+		clearInterval(keepAlive);
+		disconnect?.();
+		disconnect = undefined;
+	};
+
+	const stream = new ReadableStream<string>({
+		start(controller) {
+			disconnect = room.connect(player.id, (view) => {
+				controller.enqueue(`data: ${JSON.stringify(view)}\n\n`);
+			});
+			keepAlive = setInterval(() => controller.enqueue(': keep-alive\n\n'), KEEP_ALIVE_MS);
+			request.signal.addEventListener('abort', close);
+		},
+		cancel: close
+	});
+
+	return new Response(stream.pipeThrough(new TextEncoderStream()), {
+		headers: {
+			'content-type': 'text/event-stream',
+			'cache-control': 'no-cache',
+			connection: 'keep-alive'
+		}
+	});
+};
@@ -0,0 +1,34 @@
+import { error, json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { deleteSavedGame, saveGame } from '$lib/server/savedGames';
+import { isSavedGame, replaySavedGame } from '$lib/savedGame';
+
+/**
+ * Save the signed-in player's in-progress game vs the computer
+ * Body: SavedGame
+ */
+export const PUT: RequestHandler = async ({ request, locals }) => {
+	if (!locals.user) {
+		error(401, 'Sign in to save games');
+	}
+
+	const game = await request.json().catch(() => null);
+	if (!isSavedGame(game) || !replaySavedGame(game)) {
+		error(400, 'Expected a saved game with legal moves');
+	}
+
+	await saveGame(locals.user.id, game);
+	return json({ saved: true });
+};
+
+/**
+ * Forget the signed-in player's in-progress game, e.g. once it is over
+ */
+export const DELETE: RequestHandler = async ({ locals }) => {
+	if (!locals.user) {
+		error(401, 'Sign in to save games');
+	}
+
+	await deleteSavedGame(locals.user.id);
+	return json({ saved: false });
+};
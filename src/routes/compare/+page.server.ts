@@ -0,0 +1,13 @@
+import type { PageServerLoad } from './$types';
+import { getRandomPositions } from '$lib/server/positions';
+
+// Number of positions sent per load; some are skipped when no pair of moves is clear enough
+const BATCH_SIZE = 10;
+
+export const load: PageServerLoad = async () => {
+	const positions = await getRandomPositions(BATCH_SIZE);
+
+	return {
+		positions: positions.map(({ id, fen }) => ({ id, fen }))
+	};
+};
@@ -0,0 +1,23 @@
+import type { PageServerLoad } from './$types';
+import { getPlayer } from '$lib/server/player';
+import { getDailyLeaderboard, getDailyPositions, getDailyResults } from '$lib/server/daily';
+import { dailyDate } from '$lib/daily';
+
+export const load: PageServerLoad = async ({ cookies, locals }) => {
+	const date = dailyDate();
+	const player = await getPlayer(cookies, locals);
+	const [positions, results, leaderboard] = await Promise.all([
+		getDailyPositions(date),
+		player ? getDailyResults(player.id, date) : [],
+		getDailyLeaderboard(date)
+	]);
+
+	return {
+		date,
+		// Engine evaluations stay on the server until the position is guessed
+		positions: positions.map(({ fen, phase }) => ({ fen, phase })),
+		results,
+		leaderboard,
+		playerId: player?.id ?? null
+	};
+};
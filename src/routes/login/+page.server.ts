@@ -0,0 +1,92 @@
+import { fail, redirect } from '@sveltejs/kit';
+import type { Actions, PageServerLoad, RequestEvent } from './$types';
+import * as auth from '$lib/server/auth';
+import {
+	MIN_PASSWORD_LENGTH,
+	authenticateUser,
+	claimGuestHistory,
+	countGuestGuesses,
+	isValidPassword,
+	isValidUsername,
+	registerUser
+} from '$lib/server/accounts';
+import { clearGuestToken, getGuestToken } from '$lib/server/player';
+
+export const load: PageServerLoad = async ({ locals, cookies }) => {
+	if (locals.user) {
+		redirect(303, '/profile');
+	}
+
+	const guestToken = getGuestToken(cookies);
+	return {
+		guestGuesses: guestToken ? await countGuestGuesses(guestToken) : 0
+	};
+};
+
+export const actions: Actions = {
+	login: async (event) => {
+		const form = await readForm(event);
+		if (!isValidUsername(form.username) || typeof form.password !== 'string') {
+			return fail(400, { username: form.username, message: 'Incorrect username or password' });
+		}
+
+		const account = await authenticateUser(form.username, form.password);
+		if (!account) {
+			return fail(400, { username: form.username, message: 'Incorrect username or password' });
+		}
+
+		const guestToken = getGuestToken(event.cookies);
+		if (form.claim && guestToken) {
+			await claimGuestHistory(guestToken, account.id);
+			clearGuestToken(event.cookies);
+		}
+
+		await startSession(event, account.id);
+		redirect(303, '/profile');
+	},
+
+	register: async (event) => {
+		const form = await readForm(event);
+		if (!isValidUsername(form.username)) {
+			return fail(400, {
+				username: form.username,
+				message: 'Usernames are 3-31 characters: lowercase letters, digits, _ and -'
+			});
+		}
+		if (!isValidPassword(form.password)) {
+			return fail(400, {
+				username: form.username,
+				message: `Passwords need at least ${MIN_PASSWORD_LENGTH} characters`
+			});
+		}
+
+		// Claiming turns this browser's guest record into the account
+		const guestToken = form.claim ? getGuestToken(event.cookies) : undefined;
+		const account = await registerUser(form.username, form.password, guestToken);
+		if (!account) {
+			return fail(400, { username: form.username, message: 'That username is taken' });
+		}
+		if (guestToken) {
+			clearGuestToken(event.cookies);
+		}
+
+		await startSession(event, account.id);
+		redirect(303, '/profile');
+	}
+};
+
+async function readForm(event: RequestEvent) {
+	const formData = await event.request.formData();
+	const username = formData.get('username');
+	return {
+		username: typeof username === 'string' ? username.trim().toLowerCase() : '',
+		password: formData.get('password'),
+		claim: formData.get('claim') === 'on'
+	};
+}
+
+async function startSession(event: RequestEvent, userId: number): Promise<void> {
+	const token = auth.generateSessionToken();
+	const session = await auth.createSession(token, userId);
+	auth.setSessionTokenCookie(event, token, session.expiresAt);
+}
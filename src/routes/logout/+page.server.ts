@@ -0,0 +1,18 @@
+import { redirect } from '@sveltejs/kit';
+import type { Actions, PageServerLoad } from './$types';
+import * as auth from '$lib/server/auth';
+
+export const load: PageServerLoad = async () => {
+	redirect(303, '/');
+};
+
+export const actions: Actions = {
+	default: async (event) => {
+		if (event.locals.session) {
+			await auth.invalidateSession(event.locals.session.id);
+		}
+		auth.deleteSessionTokenCookie(event);
+
+		redirect(303, '/');
+	}
+};
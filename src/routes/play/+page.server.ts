@@ -1,10 +1,12 @@
 import type { PageServerLoad } from './$types';
+import { clampElo, DEFAULT_ELO } from '$lib/strength';
+import { getSavedGame } from '$lib/server/savedGames';
 
-export const load: PageServerLoad = async ({ url }) => {
+export const load: PageServerLoad = async ({ url, locals }) => {
   // Optional: Load initial position from query params
   const fenParam = url.searchParams.get('fen');
   const colorParam = url.searchParams.get('color') || 'white';
-  const levelParam = url.searchParams.get('level') || '10'; // Stockfish strength 1-20
+  const levelParam = url.searchParams.get('level'); // Computer strength in Elo
 
   // Default starting position
   const defaultFen = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
@@ -12,6 +14,8 @@ export const load: PageServerLoad = async ({ url }) => {
   return {
     fen: fenParam || defaultFen,
     playerColor: colorParam as 'white' | 'black',
-    computerLevel: parseInt(levelParam, 10)
+    computerElo: levelParam ? clampElo(parseInt(levelParam, 10)) : DEFAULT_ELO,
+    // Signed-in players can resume a game started on another device
+    savedGame: locals.user ? await getSavedGame(locals.user.id) : null
   };
 };
\ No newline at end of file
@@ -0,0 +1,20 @@
+import type { PageServerLoad } from './$types';
+import { DEFAULT_RATING } from '$lib/glicko';
+import { getPlayer } from '$lib/server/player';
+import { getRatingHistory } from '$lib/server/ratings';
+
+export const load: PageServerLoad = async ({ cookies, locals }) => {
+	const player = await getPlayer(cookies, locals);
+	const history = player ? await getRatingHistory(player.id) : [];
+
+	return {
+		username: player?.username ?? null,
+		rating: Math.round(player?.rating ?? DEFAULT_RATING.rating),
+		ratingDeviation: Math.round(player?.ratingDeviation ?? DEFAULT_RATING.deviation),
+		history: history.map((entry) => ({
+			rating: Math.round(entry.rating),
+			isCorrect: entry.isCorrect,
+			createdAt: entry.createdAt.toISOString()
+		}))
+	};
+};
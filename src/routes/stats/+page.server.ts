@@ -0,0 +1,13 @@
+import type { PageServerLoad } from './$types';
+import { computeCalibration } from '$lib/calibration';
+import { getPlayer } from '$lib/server/player';
+import { getPlayerGuesses } from '$lib/server/stats';
+
+export const load: PageServerLoad = async ({ cookies, locals }) => {
+	const player = await getPlayer(cookies, locals);
+	const guesses = player ? await getPlayerGuesses(player.id) : [];
+
+	return {
+		stats: computeCalibration(guesses)
+	};
+};
@@ -0,0 +1,35 @@
+import { error, json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { computeCalibration } from '$lib/calibration';
+import { getPlayer } from '$lib/server/player';
+import { getPlayerGuesses, guessesToCsv } from '$lib/server/stats';
+
+/**
+ * Download the player's guesses as CSV, or the guesses and statistics as JSON
+ * GET /stats/export?format=csv|json
+ */
+export const GET: RequestHandler = async ({ url, cookies, locals }) => {
+	const format = url.searchParams.get('format') ?? 'csv';
+	if (format !== 'csv' && format !== 'json') {
+		error(400, 'Format must be csv or json');
+	}
+
+	const player = await getPlayer(cookies, locals);
+	const guesses = player ? await getPlayerGuesses(player.id) : [];
+	const filename = `eval-guesser-stats.${format}`;
+	const disposition = `attachment; filename="${filename}"`;
+
+	if (format === 'json') {
+		return json(
+			{ stats: computeCalibration(guesses), guesses },
+			{ headers: { 'content-disposition': disposition } }
+		);
+	}
+
+	return new Response(guessesToCsv(guesses), {
+		headers: {
+			'content-type': 'text/csv; charset=utf-8',
+			'content-disposition': disposition
+		}
+	});
+};
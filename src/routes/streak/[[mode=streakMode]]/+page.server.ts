@@ -0,0 +1,76 @@
+import type { PageServerLoad } from './$types';
+import { env } from '$env/dynamic/private';
+import { getPositionsNearRating, markServed } from '$lib/server/positions';
+import { getOrCreatePlayer } from '$lib/server/player';
+import { countDueReviews, getDueReviews } from '$lib/server/reviews';
+import type { StreakPosition } from '$lib/streakManager';
+
+// Number of positions sent per load
+const BATCH_SIZE = 10;
+
+// Share of each classic batch taken from due reviews (STREAK_REVIEW_RATIO, 0-1)
+const DEFAULT_REVIEW_RATIO = 0.2;
+
+// Cookie remembering which positions this browser has already been served
+const SEEN_COOKIE = 'streak_seen';
+const MAX_SEEN = 500;
+
+export const load: PageServerLoad = async ({ cookies, locals, params }) => {
+	const mode = params.mode ?? 'classic';
+	const seen = (cookies.get(SEEN_COOKIE) ?? '')
+		.split(',')
+		.map((id) => parseInt(id, 10))
+		.filter((id) => !isNaN(id));
+
+	const player = await getOrCreatePlayer(cookies, locals);
+
+	let positions: StreakPosition[];
+	if (mode === 'review') {
+		positions = await getDueReviews(player.id, BATCH_SIZE);
+	} else {
+		// Due reviews are mixed into classic play; blitz only serves fresh positions
+		const reviewCount = mode === 'classic' ? Math.round(BATCH_SIZE * reviewRatio()) : 0;
+		const due = reviewCount > 0 ? await getDueReviews(player.id, reviewCount) : [];
+		const fresh = await getPositionsNearRating(player.rating, BATCH_SIZE - due.length, [
+			...seen,
+			...due.map((p) => p.id)
+		]);
+		positions = interleave(fresh, due);
+	}
+
+	await markServed(
+		player.id,
+		positions.map((p) => p.id)
+	);
+
+	const updatedSeen = [...seen, ...positions.map((p) => p.id)].slice(-MAX_SEEN);
+	cookies.set(SEEN_COOKIE, updatedSeen.join(','), {
+		path: '/streak',
+		maxAge: 60 * 60 * 24 * 365
+	});
+
+	return {
+		mode,
+		fen: positions[0]?.fen,
+		positions,
+		rating: Math.round(player.rating),
+		dueReviews: await countDueReviews(player.id)
+	};
+};
+
+function reviewRatio(): number {
+	const ratio = parseFloat(env.STREAK_REVIEW_RATIO ?? '');
+	return isNaN(ratio) ? DEFAULT_REVIEW_RATIO : Math.min(1, Math.max(0, ratio));
+}
+
+// Spread the reviews evenly through the fresh positions
+function interleave(fresh: StreakPosition[], due: StreakPosition[]): StreakPosition[] {
+	if (due.length === 0) return fresh;
+
+	const result = [...fresh];
+	const step = Math.floor(result.length / due.length) + 1;
+	due.forEach((position, index) => {
+		result.splice(Math.min(result.length, index * step + 1), 0, position);
+	});
+	return result;
+}
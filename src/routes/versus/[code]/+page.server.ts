@@ -0,0 +1,20 @@
+import { error } from '@sveltejs/kit';
+import type { PageServerLoad } from './$types';
+import { displayName, getOrCreatePlayer } from '$lib/server/player';
+import { getRoom } from '$lib/server/versus';
+
+export const load: PageServerLoad = async ({ params, cookies, locals }) => {
+	const room = getRoom(params.code);
+	if (!room) {
+		error(404, 'Room not found');
+	}
+
+	const player = await getOrCreatePlayer(cookies, locals);
+	if (!room.join(player.id, displayName(player))) {
+		error(403, 'This room is full');
+	}
+
+	return {
+		code: room.code
+	};
+};